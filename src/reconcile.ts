@@ -0,0 +1,118 @@
+// Copyright (c) QuantStack
+// Distributed under the terms of the Modified BSD License.
+
+/**
+ * Returns the indices of a longest strictly increasing subsequence of `values`, negative values being ignored.
+ */
+function longestIncreasingSubsequence(values: Array<number>) : Set<number> {
+    // tails[k] is the index of the smallest value ending an increasing subsequence of length k + 1
+    const tails: Array<number> = [];
+    const predecessors: Array<number> = new Array(values.length).fill(-1);
+
+    values.forEach((value: number, index: number) => {
+        if (value < 0) {
+            return;
+        }
+
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (values[tails[middle]] < value) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        predecessors[index] = low > 0 ? tails[low - 1] : -1;
+        tails[low] = index;
+    });
+
+    const result = new Set<number>();
+    let index = tails.length ? tails[tails.length - 1] : -1;
+    while (index != -1) {
+        result.add(index);
+        index = predecessors[index];
+    }
+    return result;
+}
+
+/**
+ * Range of an array which changed: the items before `start` are unchanged, and the items from `previousEnd`
+ * in the previous array are the items from `end` in the next one.
+ */
+export
+interface ValueChange {
+    start: number;
+    previousEnd: number;
+    end: number;
+}
+
+/**
+ * Find the range which changed between `previous` and `next` by skipping their common first and last items
+ */
+export
+function findValueChange(previous: Array<any>, next: Array<any>, equals: (a: any, b: any) => boolean) : ValueChange {
+    const length = Math.min(previous.length, next.length);
+
+    let start = 0;
+    while (start < length && equals(previous[start], next[start])) {
+        start++;
+    }
+
+    let previousEnd = previous.length;
+    let end = next.length;
+    while (previousEnd > start && end > start && equals(previous[previousEnd - 1], next[end - 1])) {
+        previousEnd--;
+        end--;
+    }
+
+    return { start, previousEnd, end };
+}
+
+/**
+ * Add the item at `index` in the next array to the changed range
+ */
+export
+function extendValueChange(change: ValueChange | null, index: number) : ValueChange {
+    if (change == null) {
+        return { start: index, previousEnd: index + 1, end: index + 1 };
+    }
+
+    const delta = change.end - change.previousEnd;
+    const start = Math.min(change.start, index);
+    const end = Math.max(change.end, index + 1);
+    return { start, previousEnd: end - delta, end };
+}
+
+/**
+ * Update the children of `parent` from `previous` to `next`, removing, inserting and moving as few
+ * elements as possible. Elements of `previous` which are not in `next` are removed. The elements are
+ * put before `before`, or at the end of `parent` if it is null.
+ */
+export
+function reconcileChildren(parent: Node, previous: Array<Node>, next: Array<Node>, before: Node | null = null) {
+    const nextElements = new Set(next);
+    for (const element of previous) {
+        if (!nextElements.has(element) && element.parentNode === parent) {
+            parent.removeChild(element);
+        }
+    }
+
+    // The elements which kept their relative order stay in place, the other ones are moved or inserted
+    const previousIndices = new Map(previous.map((element, index) : [Node, number] => [element, index]));
+    const positions = next.map((element) => {
+        const index = previousIndices.get(element);
+        return index == undefined ? -1 : index;
+    });
+    const staying = longestIncreasingSubsequence(positions);
+
+    let nextSibling: Node | null = before;
+    for (let index = next.length - 1; index >= 0; index--) {
+        if (!staying.has(index)) {
+            parent.insertBefore(next[index], nextSibling);
+        }
+        nextSibling = next[index];
+    }
+}
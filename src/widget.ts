@@ -3,6 +3,7 @@
 
 const d3Color = require('d3-color');
 const d3Format = require('d3-format');
+const d3TimeFormat = require('d3-time-format');
 
 import {
     DOMWidgetModel, DOMWidgetView, Dict, uuid
@@ -14,9 +15,88 @@ import {
   MODULE_NAME, MODULE_VERSION
 } from './version';
 
+import {
+  ValueChange, extendValueChange, findValueChange, reconcileChildren
+} from './reconcile';
+
 // Import CSS
 import '../css/tagsinput.css'
 
+/**
+ * MIME type of the tag values put in the clipboard, preserving their type.
+ */
+const TAGS_MIME_TYPE = 'application/x-tagsinput+json';
+
+/**
+ * Data put in the drag and drop data transfer object when dragging tags, under TAGS_MIME_TYPE.
+ */
+interface DragPayload {
+    // Id of the model the tags are dragged from
+    origin: string;
+    // Drag group of the widget the tags are dragged from
+    group: string;
+    indices: Array<number>;
+    values: Array<any>;
+}
+
+/**
+ * Parse JSON data found under TAGS_MIME_TYPE, returning undefined if it is malformed.
+ * Any page or application can put data under this type.
+ */
+function parseTagsData(data: string) : any {
+    try {
+        return JSON.parse(data);
+    }
+    catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the tag values copied from a tags widget, null if `data` is not an array of values
+ */
+function parseCopiedValues(data: string) : Array<any> | null {
+    const values = parseTagsData(data);
+
+    return Array.isArray(values) ? values : null;
+}
+
+/**
+ * Returns the tags dragged from a tags widget, null if `data` is not a valid DragPayload
+ */
+function parseDragPayload(data: string) : DragPayload | null {
+    const payload = parseTagsData(data);
+
+    if (payload == null || typeof payload != 'object' || typeof payload.origin != 'string' || typeof payload.group != 'string' ||
+        !Array.isArray(payload.values) || !Array.isArray(payload.indices) ||
+        !payload.indices.every((index: any) => Number.isInteger(index))) {
+        return null;
+    }
+
+    return payload;
+}
+
+/**
+ * View tags are currently being dragged from, if the drag started in this page.
+ * Tags moved to another widget are removed from this view once dropped.
+ */
+let activeDrag: { view: TagsInputBaseView, payload: DragPayload } | null = null;
+
+/**
+ * Rendered views by their element, used to find the view under a pointer dragging tags.
+ */
+const viewsByElement = new WeakMap<Element, TagsInputBaseView>();
+
+/**
+ * Returns the view containing `element`, null if it is not part of a tags widget.
+ */
+function findView(element: Element | null) : TagsInputBaseView | null {
+    const viewElement = element == null ? null : element.closest('.jupyter-widget-tagsinput');
+    const view = viewElement == null ? undefined : viewsByElement.get(viewElement);
+
+    return view == undefined ? null : view;
+}
+
 /**
  * Returns a new string after removing any leading and trailing whitespaces.
  * The original string is left unchanged.
@@ -25,6 +105,81 @@ function trim(value: string) : string {
     return value.replace(/^\s+|\s+$/g, '');
 }
 
+/**
+ * Compare two strings by code points, JavaScript comparing UTF-16 code units.
+ */
+function compareCodePoints(a: string, b: string) : number {
+    let i = 0;
+    while (i < a.length && i < b.length) {
+        const codeA = a.codePointAt(i)!;
+        const codeB = b.codePointAt(i)!;
+        if (codeA != codeB) {
+            return codeA - codeB;
+        }
+        i += codeA > 0xffff ? 2 : 1;
+    }
+
+    return a.length - b.length;
+}
+
+/**
+ * Compare two strings comparing the numbers they contain as numbers and the rest of the text ignoring case,
+ * numbers coming before text. This is how the Python widget sorts tags.
+ */
+function compareNatural(a: string, b: string) : number {
+    const piecesA = a.match(/[0-9]+|[^0-9]+/g) || [];
+    const piecesB = b.match(/[0-9]+|[^0-9]+/g) || [];
+
+    for (let i = 0; i < piecesA.length && i < piecesB.length; i++) {
+        const isNumberA = /^[0-9]/.test(piecesA[i]);
+        const isNumberB = /^[0-9]/.test(piecesB[i]);
+        if (isNumberA != isNumberB) {
+            return isNumberA ? -1 : 1;
+        }
+
+        let result: number;
+        if (isNumberA) {
+            // Numbers may not fit in a double, they are compared by their digits without the leading zeros
+            const digitsA = piecesA[i].replace(/^0+(?=.)/, '');
+            const digitsB = piecesB[i].replace(/^0+(?=.)/, '');
+            result = digitsA.length - digitsB.length || compareCodePoints(digitsA, digitsB);
+        } else {
+            result = compareCodePoints(piecesA[i].toLowerCase(), piecesB[i].toLowerCase());
+        }
+
+        if (result) {
+            return result;
+        }
+    }
+
+    return piecesA.length - piecesB.length;
+}
+
+/**
+ * Returns the hue and the lightness a color is sorted by, grays having a hue of -1, null if it is not a valid color.
+ * The color is rounded to its hex code first, so that it sorts the same however it is written.
+ */
+function getColorSortKey(value: string) : [number, number] | null {
+    const color = d3Color.color(value);
+    if (color == null) {
+        return null;
+    }
+
+    const hsl = d3Color.hsl(color.formatHex());
+    return [isNaN(hsl.h) ? -1 : hsl.h, hsl.l];
+}
+
+/**
+ * Whether a date parsed from `text` is the date as written, and not an impossible date rolled over to the next
+ * month or year like 2020-02-30. The numbers of `text` are the first numbers of the date formatted back.
+ */
+function readsAsWritten(text: string, formatted: string) : boolean {
+    const numbers = (text.match(/[0-9]+/g) || []).map(Number);
+    const formattedNumbers = (formatted.match(/[0-9]+/g) || []).map(Number);
+
+    return numbers.every((value: number, index: number) => value === formattedNumbers[index]);
+}
+
 /**
  * Clamp a number between min and max and return the result.
  */
@@ -32,6 +187,240 @@ function clamp(value: number, min: number, max: number) : number {
   return Math.min(Math.max(value, min), max);
 }
 
+/**
+ * Key of the tag of `value`, counting the occurrences of each value in `occurrences` to tell duplicates apart.
+ */
+function getTagKey(value: any, occurrences: Map<string, number>) : string {
+    const valueKey = JSON.stringify(value);
+    const occurrence = occurrences.get(valueKey) || 0;
+    occurrences.set(valueKey, occurrence + 1);
+    return valueKey + '#' + occurrence;
+}
+
+/**
+ * Split a string into trimmed, non-empty pieces on any of the given separators.
+ * If `keepParentheses` is set, separators found inside parentheses are ignored, so that values like
+ * 'rgb(200, 50, 200)' are kept in one piece. A parenthesis which is never closed does not prevent splitting.
+ */
+function splitTags(text: string, separators: string[], keepParentheses: boolean = false) : string[] {
+    const pieces: string[] = [];
+    let current = '';
+    let depth = 0;
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+
+        if (keepParentheses && char == '(' && text.indexOf(')', i) != -1) {
+            depth++;
+        } else if (keepParentheses && char == ')') {
+            depth = Math.max(depth - 1, 0);
+        } else if (depth == 0) {
+            const separator = separators.find((separator: string) => separator.length > 0 && text.startsWith(separator, i));
+
+            if (separator != undefined) {
+                pieces.push(current);
+                current = '';
+                i += separator.length;
+                continue;
+            }
+        }
+
+        current += char;
+        i++;
+    }
+    pieces.push(current);
+
+    return pieces.map(trim).filter((piece: string) => piece != '');
+}
+
+/**
+ * An allowed tag value, with the label shown to the user instead of the value.
+ */
+interface TagOption {
+    value: any;
+    label: string;
+    description: string;
+}
+
+/**
+ * Convert an `allowed_tags` entry, which is either a value or a {value, label, description} object, to a TagOption.
+ */
+function toTagOption(entry: any) : TagOption {
+    if (entry != null && typeof entry == 'object' && entry.hasOwnProperty('value')) {
+        return {
+            value: entry.value,
+            label: entry.label == null ? String(entry.value) : String(entry.label),
+            description: entry.description == null ? '' : String(entry.description)
+        };
+    }
+
+    return { value: entry, label: String(entry), description: '' };
+}
+
+/**
+ * Returns the children of a node of a tag tree by name. A node is either an object mapping the names of its children
+ * to their own nodes, or an array of the names of its children, which have no children. Anything else is a leaf.
+ */
+function getTreeChildren(node: any) : Dict<any> {
+    if (Array.isArray(node)) {
+        const children: Dict<any> = {};
+        for (const name of node) {
+            children[String(name)] = null;
+        }
+        return children;
+    }
+
+    return node != null && typeof node == 'object' ? node : {};
+}
+
+/**
+ * Returns the children of the node of a tag tree at the given `path` of names, null if there is no such node.
+ */
+function getTreeNode(tree: any, path: string[]) : Dict<any> | null {
+    let node = tree;
+    for (const name of path) {
+        const children = getTreeChildren(node);
+        if (!children.hasOwnProperty(name)) {
+            return null;
+        }
+        node = children[name];
+    }
+
+    return getTreeChildren(node);
+}
+
+/**
+ * Decimal and thousands separators of a locale.
+ */
+interface NumberSymbols {
+    decimal: string;
+    group: string;
+}
+
+/**
+ * Returns the decimal and thousands separators of a BCP 47 `locale`, en-US being used if it is empty or unknown.
+ */
+function getNumberSymbols(locale: string) : NumberSymbols {
+    let formatted: string;
+    try {
+        formatted = (12345.6).toLocaleString(locale || 'en-US');
+    }
+    catch (error) {
+        formatted = (12345.6).toLocaleString('en-US');
+    }
+
+    // The number is written as '12<group>345<decimal>6'
+    return {
+        decimal: formatted.charAt(formatted.length - 2),
+        group: formatted.length > 7 ? formatted.charAt(2) : ''
+    };
+}
+
+/**
+ * Escape the characters of `text` that have a special meaning in regular expressions
+ */
+function escapeRegExp(text: string) : string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A range of numbers from `start` to `stop` included, by increments of `step`.
+ */
+interface NumberRange {
+    start: number;
+    stop: number;
+    step: number;
+}
+
+const NUMBER_PATTERN = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?';
+
+/**
+ * Parse a range of numbers written as 'start-stop', 'start..stop' or 'start:stop:step', the step being optional.
+ * The numbers match `numberPattern` and are converted with `parseNumber`. Return null if `text` is not a range.
+ */
+function parseRange(text: string, numberPattern: string = NUMBER_PATTERN, parseNumber: (text: string) => number = parseFloat) : NumberRange | null {
+    let match = new RegExp('^\\s*(' + numberPattern + ')\\s*(?:-|\\.\\.|:)\\s*(' + numberPattern + ')\\s*$').exec(text);
+    let step: number | null = null;
+
+    if (match == null) {
+        match = new RegExp('^\\s*(' + numberPattern + ')\\s*:\\s*(' + numberPattern + ')\\s*:\\s*(' + numberPattern + ')\\s*$').exec(text);
+        if (match == null) {
+            return null;
+        }
+        step = parseNumber(match[3]);
+    }
+
+    const start = parseNumber(match[1]);
+    const stop = parseNumber(match[2]);
+
+    return { start, stop, step: step == null ? (start <= stop ? 1 : -1) : step };
+}
+
+/**
+ * Result of matching a query against a suggestion.
+ */
+interface SuggestionMatch {
+    // Suggested tag
+    option: TagOption;
+    // Lower is better: prefix matches come first, then substring and fuzzy matches
+    score: number;
+    // Indices of the characters of the label matching the query
+    indices: number[];
+}
+
+/**
+ * Match `query` against the label of `option` case-insensitively, either as a substring or as a fuzzy
+ * subsequence of characters. Return null if the label does not match.
+ */
+function matchSuggestion(query: string, option: TagOption) : SuggestionMatch | null {
+    const lowerQuery = query.toLowerCase();
+    const lowerText = option.label.toLowerCase();
+
+    const start = lowerText.indexOf(lowerQuery);
+    if (start != -1) {
+        const indices: number[] = [];
+        for (let i = start; i < start + lowerQuery.length; i++) {
+            indices.push(i);
+        }
+        return { option, score: start == 0 ? 0 : 1, indices };
+    }
+
+    // Every character of the query should appear in order, the more gaps the worse the score
+    const indices: number[] = [];
+    let gaps = 0;
+    let position = 0;
+    for (const char of lowerQuery) {
+        const found = lowerText.indexOf(char, position);
+        if (found == -1) {
+            return null;
+        }
+        if (found != position && indices.length) {
+            gaps++;
+        }
+        indices.push(found);
+        position = found + 1;
+    }
+
+    return { option, score: 2 + gaps, indices };
+}
+
+/**
+ * Returns black or white, whichever is the most readable on a given background color.
+ */
+function contrastingTextColor(backgroundColor: string) : string {
+    const rgb = d3Color.rgb(backgroundColor);
+
+    // Relative luminance, as defined by the WCAG
+    const channel = (value: number) => {
+        const c = value / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    const luminance = 0.2126 * channel(rgb.r) + 0.7152 * channel(rgb.g) + 0.0722 * channel(rgb.b);
+
+    return luminance > 0.179 ? 'black' : 'white';
+}
+
 /**
  * Remove children from an HTMLElement
  */
@@ -43,28 +432,57 @@ function removeChildren(el: HTMLElement) {
 
 /**
  * Selection class which keeps track on selected indices.
+ *
+ * The selected indices are the indices picked one by one, plus the range of indices going from
+ * `start` to `start + dx` which is extended with Shift+Arrow or Shift+click.
  */
 class Selection {
-    constructor(start: number, dx: number, max: number) {
+    constructor(start: number, dx: number, max: number, indices: Array<number> = []) {
         this.start = start;
         this.dx = dx;
         this.max = max;
+        this.indices = new Set(indices);
     }
 
     /**
      * Check if a given index is currently selected.
      */
     isSelected(index: number) : boolean {
-        let min: number;
-        let max: number;
-        if (this.dx >= 0) {
-            min = this.start;
-            max = this.start + this.dx;
-        } else {
-            min = this.start + this.dx;
-            max = this.start;
+        const [min, max] = this.getRange();
+        return (min <= index && index < max) || this.indices.has(index);
+    }
+
+    /**
+     * Returns the selected indices in ascending order, in a time proportional to the number of selected indices
+     */
+    getIndices() : Array<number> {
+        const [min, max] = this.getRange();
+
+        const indices = new Set<number>();
+        for (let index = Math.max(min, 0); index < Math.min(max, this.max); index++) {
+            indices.add(index);
+        }
+        for (const index of this.indices) {
+            if (index >= 0 && index < this.max) {
+                indices.add(index);
+            }
         }
-        return min <= index && index < max;
+
+        return [...indices].sort((a: number, b: number) => a - b);
+    }
+
+    /**
+     * Returns the range of selected indices, from the first one included to the last one not included
+     */
+    private getRange() : [number, number] {
+        return this.dx >= 0 ? [this.start, this.start + this.dx] : [this.start + this.dx, this.start];
+    }
+
+    /**
+     * Returns a copy of this selection
+     */
+    copy() : Selection {
+        return new Selection(this.start, this.dx, this.max, [...this.indices]);
     }
 
     /**
@@ -81,9 +499,50 @@ class Selection {
         }
     }
 
+    /**
+     * Extend the range so that it goes from the index where it started to `index` included.
+     */
+    extendTo(index: number) : void {
+        const anchor = this.dx >= 0 ? this.start : this.start - 1;
+
+        if (index >= anchor) {
+            this.start = anchor;
+            this.dx = index - anchor + 1;
+        } else {
+            this.start = anchor + 1;
+            this.dx = index - anchor - 1;
+        }
+    }
+
+    /**
+     * Select or unselect a given index, the range then restarts from this index.
+     */
+    toggle(index: number) : void {
+        this.indices = new Set(this.getIndices());
+
+        if (this.indices.has(index)) {
+            this.indices.delete(index);
+        } else {
+            this.indices.add(index);
+        }
+
+        this.start = index;
+        this.dx = 0;
+    }
+
     private start: number;
     private dx: number;
     private max: number;
+    private indices: Set<number>;
+}
+
+/**
+ * State of a view which can be restored when undoing or redoing a change.
+ */
+interface HistoryState {
+    value: Array<any>;
+    inputIndex: number;
+    selection: Selection | null;
 }
 
 class TagsInputBaseModel extends DOMWidgetModel {
@@ -92,6 +551,20 @@ class TagsInputBaseModel extends DOMWidgetModel {
             value: [],
             allowed_tags: null,
             allow_duplicates: true,
+            min_tags: null,
+            max_tags: null,
+            selected_indices: [],
+            max_visible_tags: null,
+            max_suggestions: 10,
+            _query_suggestions: false,
+            error: '',
+            separators: [',', '\n'],
+            commit_keys: ['Enter'],
+            accept_drops: true,
+            drag_group: '',
+            sort: 'none',
+            case_sensitive: true,
+            normalize: [],
             _model_module: TagsInputBaseModel.model_module,
             _model_module_version: TagsInputBaseModel.model_module_version,
             _view_module: TagsInputBaseModel.view_module,
@@ -114,40 +587,142 @@ abstract class TagsInputBaseView extends DOMWidgetView {
 
         this.el.classList.add('jupyter-widgets');
         this.el.classList.add('jupyter-widget-tagsinput');
+        viewsByElement.set(this.el, this);
+
+        // The tags are the cells of a one row grid, the input element being in a cell of its own at the position
+        // of the caret, so that the reading order is the visual order. Unlike options of a list box, grid cells
+        // expose the buttons they contain.
+        this.tagGrid = document.createElement('div');
+        this.tagGrid.classList.add('jupyter-widget-tagsinput-grid');
+        this.tagGrid.setAttribute('role', 'grid');
+        this.tagGrid.setAttribute('aria-label', 'Tags');
+        this.tagGrid.setAttribute('aria-multiselectable', 'true');
+
+        this.tagList = document.createElement('div');
+        this.tagList.classList.add('jupyter-widget-tagsinput-tags');
+        this.tagList.setAttribute('role', 'row');
+        this.tagGrid.appendChild(this.tagList);
+
+        // Announces changes to screen reader users
+        this.liveRegion = document.createElement('div');
+        this.liveRegion.classList.add('jupyter-widget-tagsinput-live');
+        this.liveRegion.setAttribute('role', 'status');
+        this.liveRegion.setAttribute('aria-live', 'polite');
 
         this.taginputWrapper = document.createElement('div');
+        this.taginputWrapper.classList.add('jupyter-widget-taginput-wrapper');
+        this.taginputWrapper.setAttribute('role', 'gridcell');
 
         // The taginput is not displayed until the user focuses on the widget
         this.taginputWrapper.style.display = 'none';
 
-        this.datalistID = uuid();
-
         this.taginput = document.createElement('input');
         this.taginput.classList.add('jupyter-widget-tag');
         this.taginput.classList.add('jupyter-widget-taginput');
-        this.taginput.setAttribute('list', this.datalistID);
+        this.taginput.setAttribute('autocomplete', 'off');
+        this.taginput.setAttribute('aria-label', 'New tag');
+
+        this.autocompleteList = document.createElement('div');
+        this.autocompleteList.classList.add('jupyter-widget-tagsinput-suggestions');
+        this.autocompleteList.style.display = 'none';
+        this.autocompleteList.id = uuid();
+        this.autocompleteList.setAttribute('role', 'listbox');
+        this.positionAutocomplete = this.positionAutocomplete.bind(this);
+
+        this.taginput.setAttribute('role', 'combobox');
+        this.taginput.setAttribute('aria-autocomplete', 'list');
+        this.taginput.setAttribute('aria-controls', this.autocompleteList.id);
+        this.taginput.setAttribute('aria-expanded', 'false');
+
+        // Ask the backend for suggestions once the user stops typing
+        this.querySuggestions = _.debounce(() => {
+            const query = trim(this.taginput.value);
+
+            // Answers to the previous queries are outdated, even if there is nothing to ask anymore
+            this.queryId++;
+            if (query == '') {
+                this.remoteSuggestions = [];
+                return;
+            }
 
-        this.autocompleteList = document.createElement('datalist');
-        this.autocompleteList.id = this.datalistID;
+            this.send({ event: 'query', id: this.queryId, query });
+        }, 200);
+        this.model.on('msg:custom', this.handleMessage.bind(this));
 
-        this.updateAutocomplete();
-        this.model.on('change:allowed_tags', this.updateAutocomplete.bind(this));
+        this.updateAllowedTags();
+        this.model.on('change:allowed_tags', () => {
+            this.updateAllowedTags();
+            this.refreshTags();
+        });
+
+        this.model.on('change:allowed_tags change:max_suggestions', () => {
+            if (this.autocompleteList.style.display != 'none') {
+                this.updateAutocomplete(true);
+            }
+        });
+
+        this.errorMessage = document.createElement('span');
+        this.errorMessage.classList.add('jupyter-widget-taginput-error');
 
         this.taginputWrapper.appendChild(this.taginput);
+        this.taginputWrapper.appendChild(this.errorMessage);
         this.taginputWrapper.appendChild(this.autocompleteList);
 
+        this.overflowChip = document.createElement('div');
+        this.overflowChip.classList.add('jupyter-widget-tag');
+        this.overflowChip.classList.add('jupyter-widget-tag-overflow');
+        this.overflowChip.setAttribute('role', 'button');
+        this.overflowChip.tabIndex = 0;
+        this.overflowChip.style.display = 'none';
+        // Clicks reach the widget, which shows all the tags and focuses the input element
+        this.overflowChip.onkeydown = (event: KeyboardEvent) => {
+            if (event.key == 'Enter' || event.key == ' ') {
+                event.preventDefault();
+                this.focus();
+            }
+        };
+
+        this.tagList.appendChild(this.taginputWrapper);
+
+        this.el.appendChild(this.tagGrid);
+        this.el.appendChild(this.overflowChip);
+        this.el.appendChild(this.liveRegion);
+
         this.el.onclick = this.focus.bind(this);
         this.el.ondrop = (event: DragEvent) => {
-            // Put the tag at the end of the list if there is no currently hovered tag
-            const index = this.hoveredTagIndex == null ? this.tags.length : this.hoveredTagIndex;
+            // Put the tag at the end of the list if there is no insertion point
+            const index = this.dropIndex == null ? this.tags.length : this.dropIndex;
+            this.hideDropIndex();
             this.ondrop(event, index);
         };
         this.el.ondragover = this.ondragover.bind(this);
+        this.el.ondragleave = (event: DragEvent) => {
+            if (!(event.relatedTarget instanceof Node && this.el.contains(event.relatedTarget))) {
+                this.hideDropIndex();
+            }
+        };
+
+        this.taginput.oninput = () => {
+            this.resizeInput();
+            this.showError('');
+            this.updateAutocomplete();
 
-        this.taginput.onchange = this.handleValueAdded.bind(this);
-        this.taginput.oninput = this.resizeInput.bind(this);
+            if (this.model.get('_query_suggestions')) {
+                this.querySuggestions();
+            }
+        };
         this.taginput.onkeydown = this.handleKeyEvent.bind(this);
-        this.taginput.onblur = this.loseFocus.bind(this);
+        this.taginput.onpaste = this.handlePaste.bind(this);
+        this.taginput.oncopy = this.handleCopy.bind(this);
+        this.taginput.oncut = this.handleCopy.bind(this);
+        this.taginput.onblur = () => {
+            // Commit what the user typed before leaving, as a native change event would
+            if (!this.preventLoosingFocus) {
+                this.hideAutocomplete();
+                this.addTagsFromText(this.taginput.value);
+            }
+            this.loseFocus();
+        };
         this.resizeInput();
 
         this.inputIndex = this.model.get('value').length;
@@ -155,9 +730,25 @@ abstract class TagsInputBaseView extends DOMWidgetView {
         this.selection = null;
         this.preventLoosingFocus = false;
 
+        // The history does not apply anymore if the value is changed from somewhere else (e.g. the kernel)
+        this.model.on('change:value', () => {
+            if (!this.settingValue) {
+                this.undoHistory = [];
+                this.redoHistory = [];
+            }
+        });
+
         this.update();
     }
 
+    /**
+     * Called when the view is removed, the auto-completion list stops following the input element
+     */
+    remove() {
+        this.hideAutocomplete();
+        return super.remove();
+    }
+
     /**
      * Update the contents of this view
      *
@@ -165,467 +756,3178 @@ abstract class TagsInputBaseView extends DOMWidgetView {
      * changed by another view or by a state update from the back-end.
      */
     update() {
-        // Prevent hiding the input element and clearing the selection when updating everything
+        // Prevent hiding the input element and clearing the selection when moving it
         this.preventLoosingFocus = true;
-
-        removeChildren(this.el);
-        this.tags = [];
+        const activeElement = document.activeElement;
+        const hasFocus = activeElement === this.taginput;
+        const tagHasFocus = activeElement != null && activeElement.parentNode === this.tagList &&
+            activeElement !== this.taginputWrapper;
 
         const value: Array<any> = this.model.get('value');
-        for (const idx in value) {
-            const index = parseInt(idx);
-
-            const tag = this.createTag(value[index], index, this.selection != null && this.selection.isSelected(index));
-
-            // Drag and drop
-            tag.draggable = true;
-            tag.ondragstart = ((index: number, value: any) => {
-                return (event: DragEvent) => {
-                    this.ondragstart(event, index, value, this.model.model_id);
-                };
-            })(index, value[index]);
-            tag.ondrop = ((index: number) => {
-                return (event: DragEvent) => {
-                    this.ondrop(event, index);
-                };
-            })(index);
-            tag.ondragover = this.ondragover.bind(this);
-            tag.ondragenter = ((index: number) => {
-                return (event: DragEvent) => {
-                    this.ondragenter(event, index);
-                };
-            })(index);
-            tag.ondragend = this.ondragend.bind(this);
-
-            this.tags.push(tag);
-            this.el.appendChild(tag);
-        }
-
-        this.el.insertBefore(this.taginputWrapper, this.el.children[this.inputIndex]);
 
-        this.preventLoosingFocus = false;
+        // Only the first tags are shown while the widget is collapsed, the other ones are hidden but still
+        // rendered so that the positions of the tags match the value
+        const maxVisibleTags: number | null = this.model.get('max_visible_tags');
+        const visibleLimit = this.collapsed && maxVisibleTags != null ? maxVisibleTags : Infinity;
+        const visibleLength = Math.min(visibleLimit, value.length);
 
-        return super.update();
-    }
+        this.focusedTagIndex = clamp(this.focusedTagIndex, 0, Math.max(visibleLength - 1, 0));
 
-    /**
-     * Update the auto-completion list
-     */
-    updateAutocomplete() {
-        removeChildren(this.autocompleteList);
+        // Stop editing if the edited tag does not exist anymore
+        if (this.editIndex != null && this.editIndex >= value.length) {
+            this.editIndex = null;
+        }
 
-        const allowedTags = this.model.get('allowed_tags');
+        // Only the tags of the values which changed are rendered again
+        const change = this.getRenderedChange(value);
+        const delta = change == null ? 0 : change.end - change.previousEnd;
+        if (change != null) {
+            this.renderTags(value, change);
+        }
+        this.renderedValue = value;
+        this.renderedEditIndex = this.editIndex;
+        this.refreshAll = false;
 
-        for (const tag of allowedTags) {
-            const option = document.createElement('option');
-            option.value = tag;
-            this.autocompleteList.appendChild(option);
+        // Update which tags are shown, only the tags which were rendered again or crossed the limit can change
+        if (visibleLimit != this.renderedVisibleLimit) {
+            this.updateTagsDisplay(0, this.tags.length, visibleLimit);
+        } else {
+            if (change != null) {
+                this.updateTagsDisplay(change.start, change.end, visibleLimit);
+            }
+            if (visibleLimit != Infinity && delta != 0) {
+                this.updateTagsDisplay(Math.min(visibleLimit, visibleLimit + delta), Math.max(visibleLimit, visibleLimit + delta), visibleLimit);
+            }
         }
-    }
+        this.renderedVisibleLimit = visibleLimit;
 
-    /**
-     * Update the tags, called when the selection has changed and we need to update the tags CSS
-     */
-    updateTags() {
-        const value: Array<any> = this.model.get('value');
+        // Update the tags which were selected or are now selected, the previous indices being moved by the change
+        const selectedIndices = new Set<number>(this.selection == null ? [] : this.selection.getIndices());
+        const previousIndices = [...this.selectedIndices].map((index: number) => {
+            if (change == null || index < change.start) {
+                return index;
+            }
+            return index >= change.previousEnd ? index + delta : -1;
+        });
+        for (const index of new Set([...previousIndices, ...selectedIndices])) {
+            if (index < 0 || index >= this.tags.length || index === this.editIndex) {
+                continue;
+            }
+            this.refreshTag(this.tags[index], value[index], index, selectedIndices.has(index));
+        }
+        this.selectedIndices = selectedIndices;
 
-        for (const idx in this.tags) {
-            const index = parseInt(idx);
+        this.placeInput();
 
-            this.updateTag(this.tags[index], value[index], index, this.selection != null && this.selection.isSelected(index));
+        const hiddenLength = value.length - visibleLength;
+        if (hiddenLength > 0) {
+            this.overflowChip.textContent = '+' + hiddenLength + ' more';
+            this.overflowChip.setAttribute('aria-label', 'Show ' + hiddenLength + ' more tags');
+            this.overflowChip.style.display = '';
+        } else {
+            this.overflowChip.style.display = 'none';
         }
-    }
 
-    /**
-     * Handle a new value is added from the input element
-     */
-    handleValueAdded(event: Event) {
-        const newTagValue = trim(this.taginput.value);
-        const tagIndex = this.inputIndex;
+        this.updateRovingTag();
+        this.updateCountState();
 
-        if (newTagValue == '') {
-            return;
+        if (this.editIndex != null) {
+            this.tagEditor.focus();
+        } else if (hasFocus) {
+            this.taginput.focus();
+        } else if (tagHasFocus && this.tags.length) {
+            this.tags[this.focusedTagIndex].focus();
         }
 
-        this.inputIndex++;
+        this.preventLoosingFocus = false;
 
-        const tagAdded = this.addTag(tagIndex, newTagValue);
+        this.syncSelection();
 
-        if (tagAdded) {
-            // Clear the input and keep focus on it allowing the user to add more tags
-            this.taginput.value = '';
-            this.resizeInput();
-            this.focus();
-        }
+        return super.update();
     }
 
     /**
-     * Add a new tag with a value of `tagValue` at the `index` position
-     * Return true if the tag was correctly added, false otherwise
+     * Show whether the number of tags is below the minimum or has reached the maximum. No text can be typed
+     * once the maximum is reached, but tags can still be removed from the input element.
      */
-    addTag(index: number, tagValue: string) : boolean {
-        const value: Array<any> = this.model.get('value');
+    updateCountState() {
+        const length: number = this.model.get('value').length;
+        const minTags: number | null = this.model.get('min_tags');
+        const maxTags: number | null = this.model.get('max_tags');
+
+        const tooFew = minTags != null && length < minTags;
+        const full = maxTags != null && length >= maxTags;
+
+        this.el.classList.toggle('mod-too-few-tags', tooFew);
+        this.el.classList.toggle('mod-full', full);
+        this.tagGrid.setAttribute('aria-invalid', String(tooFew));
+        this.taginput.readOnly = full;
+    }
 
-        let newTagValue: any;
-        try {
-            newTagValue = this.validateValue(tagValue);
+    /**
+     * Re-create all the tags, needed when their appearance depends on something else than their value
+     */
+    refreshTags() {
+        this.refreshAll = true;
+        this.update();
+    }
+
+    /**
+     * Returns the range of `value` whose tags need to be rendered again, or null if none needs to. The range
+     * comes from the view when it set the value itself, otherwise it is found by comparing with the rendered
+     * value. It also covers the tags which start or stop being edited.
+     */
+    getRenderedChange(value: Array<any>) : ValueChange | null {
+        let change: ValueChange | null = null;
+        if (this.refreshAll) {
+            change = { start: 0, previousEnd: this.tags.length, end: value.length };
+        } else if (value === this.changedValue) {
+            change = this.valueChange;
+        } else if (value !== this.renderedValue) {
+            change = findValueChange(this.renderedValue, value, (a: any, b: any) => a === b || _.isEqual(a, b));
         }
-        catch (error) {
-            return false;
+
+        if (change != null && change.start == change.end && change.start == change.previousEnd) {
+            change = null;
         }
 
-        const allowedTagValues = this.model.get('allowed_tags');
-        if (allowedTagValues.length && !allowedTagValues.includes(newTagValue)) {
-            // Do nothing for now, maybe show a proper error message?
-            return false;
+        if (this.renderedEditIndex !== this.editIndex) {
+            // The previous edit index is moved by the change of the value
+            let previousEditIndex = this.renderedEditIndex;
+            if (change != null && previousEditIndex != null && previousEditIndex >= change.start) {
+                previousEditIndex = previousEditIndex < change.previousEnd ?
+                    change.start : previousEditIndex + change.end - change.previousEnd;
+            }
+            for (const index of [previousEditIndex, this.editIndex]) {
+                if (index != null && index < value.length) {
+                    change = extendValueChange(change, index);
+                }
+            }
         }
 
-        if (!this.model.get('allow_duplicates') && value.includes(newTagValue)) {
-            // Do nothing for now, maybe add an animation to highlight the tag?
-            return false;
+        this.changedValue = null;
+        this.valueChange = null;
+
+        return change;
+    }
+
+    /**
+     * Render the tags of the values in the range of `change`, keeping the elements of the values which
+     * were already rendered in that range. Tags are keyed by their value (and occurrence for duplicates).
+     */
+    renderTags(value: Array<any>, change: ValueChange) {
+        const previousElements = this.tags.slice(change.start, change.previousEnd);
+        const before = change.previousEnd < this.tags.length ? this.tags[change.previousEnd] : null;
+
+        const previousTags = new Map<string, HTMLElement>();
+        if (!this.refreshAll) {
+            const occurrences = new Map<string, number>();
+            previousElements.forEach((tag: HTMLElement, index: number) => {
+                const key = getTagKey(this.renderedValue[change.start + index], occurrences);
+                if (tag !== this.tagEditor) {
+                    previousTags.set(key, tag);
+                }
+            });
         }
 
-        // Clearing the current selection before setting the new value
-        this.selection = null;
+        const occurrences = new Map<string, number>();
+        const elements: HTMLElement[] = [];
+        for (let index = change.start; index < change.end; index++) {
+            const tagValue = value[index];
+            const key = getTagKey(tagValue, occurrences);
 
-        // Making a copy so that backbone sees the change, and insert the new tag
-        const newValue = [...value];
-        newValue.splice(index, 0, newTagValue);
+            // The edited tag is replaced by its editor
+            if (index === this.editIndex) {
+                elements.push(this.tagEditor);
+                continue;
+            }
 
-        this.model.set('value', newValue);
-        this.model.save_changes();
+            const selected = this.selection != null && this.selection.isSelected(index);
+            let tag = previousTags.get(key);
+            if (tag == undefined) {
+                tag = this.createTagElement(tagValue, index, selected);
+            } else {
+                previousTags.delete(key);
+                this.refreshTag(tag, tagValue, index, selected);
+            }
+            elements.push(tag);
+        }
 
-        return true;
+        reconcileChildren(this.tagList, previousElements, elements, before);
+        this.tags = this.tags.slice(0, change.start).concat(elements, this.tags.slice(change.previousEnd));
     }
 
     /**
-     * Resize the input element
+     * Show the tags from `start` to `end` if they are before `visibleLimit`, hide them otherwise
      */
-    resizeInput() {
-        let size = this.taginput.value.length + 1;
-        this.taginput.setAttribute('size', String(size));
+    updateTagsDisplay(start: number, end: number, visibleLimit: number) {
+        for (let index = Math.max(start, 0); index < Math.min(end, this.tags.length); index++) {
+            const tag = this.tags[index];
+            const display = index < visibleLimit ? '' : 'none';
+            if (tag !== this.tagEditor && tag.style.display != display) {
+                tag.style.display = display;
+            }
+        }
     }
 
     /**
-     * Handle key events on the input element
+     * Create the element of a tag and attach its event handlers. The handlers look up the position of the tag
+     * when they are called, as it changes when tags are added or removed before it.
      */
-    handleKeyEvent(event: KeyboardEvent) {
-        const valueLength = this.model.get('value').length;
+    createTagElement(value: any, index: number, selected: boolean) : HTMLElement {
+        const tag = this.createTag(value, index, selected);
+        const tagIndex = () => this.tags.indexOf(tag);
 
-        // Do nothing if the user is typing something
-        if (this.taginput.value.length) {
+        this.updateTagAccessibility(tag, value, selected);
+        this.setTagTabIndex(tag, -1);
+
+        const description = this.getTagDescription(value);
+        if (description) {
+            tag.title = description;
+        }
+
+        tag.onkeydown = (event: KeyboardEvent) => {
+            this.handleTagKeyEvent(event, tagIndex());
+        };
+        tag.onfocus = () => {
+            this.setFocusedTag(tagIndex());
+            this.expand();
+        };
+
+        // Keep the selection when the input element loses focus because a tag is clicked
+        tag.onmousedown = () => {
+            this.preventLoosingFocus = true;
+        };
+        tag.onclick = (event: MouseEvent) => {
+            this.handleTagClick(event, tagIndex());
+        };
+        tag.ondblclick = (event: MouseEvent) => {
+            event.stopPropagation();
+            this.editTag(tagIndex());
+        };
+
+        // Drag and drop
+        tag.draggable = true;
+        tag.ondragstart = (event: DragEvent) => {
+            this.ondragstart(event, tagIndex());
+        };
+        tag.ondragend = this.ondragend.bind(this);
+
+        // Touch screens and pens pick the tag up with a long press
+        tag.onpointerdown = (event: PointerEvent) => {
+            this.handleTagPointerDown(event, tag);
+        };
+        // Touches on a tag scroll the page until it is picked up. Touch moves are only cancelable if a blocking
+        // listener is there when the touch starts, so this one is added with the tag.
+        tag.addEventListener('touchmove', (event: TouchEvent) => {
+            if (this.pointerDragging) {
+                event.preventDefault();
+            }
+        }, { passive: false });
+
+        return tag;
+    }
+
+    /**
+     * Update a tag if its selection state changed
+     */
+    refreshTag(tag: HTMLElement, value: any, index: number, selected: boolean) {
+        if (tag.getAttribute('aria-selected') == String(selected)) {
             return;
         }
 
-        const currentElement: number = this.inputIndex;
-        switch (event.key) {
-            case 'ArrowLeft':
-                if (event.ctrlKey && event.shiftKey) {
-                    this.select(currentElement, -currentElement);
-                }
-                if (!event.ctrlKey && event.shiftKey) {
-                    this.select(currentElement, -1);
-                }
+        this.updateTag(tag, value, index, selected);
+        this.updateTagAccessibility(tag, value, selected);
+    }
 
-                if (event.ctrlKey) {
-                    this.inputIndex = 0;
-                } else {
-                    this.inputIndex--;
-                }
-                break;
-            case 'ArrowRight':
-                if (event.ctrlKey && event.shiftKey) {
-                    this.select(currentElement, valueLength - currentElement);
-                }
-                if (!event.ctrlKey && event.shiftKey) {
-                    this.select(currentElement, 1);
-                }
+    /**
+     * Put the cell of the input element before the tag at the input position
+     */
+    placeInput() {
+        const nextTag = this.inputIndex < this.tags.length ? this.tags[this.inputIndex] : null;
 
-                if (event.ctrlKey) {
-                    this.inputIndex = valueLength;
-                } else {
-                    this.inputIndex++;
-                }
-                break;
-            case 'Backspace':
-                if (this.selection) {
-                    this.removeSelectedTags();
-                } else {
-                    this.removeTag(this.inputIndex - 1);
+        if (this.taginputWrapper.nextSibling !== nextTag) {
+            this.tagList.insertBefore(this.taginputWrapper, nextTag);
+        }
+    }
+
+    /**
+     * Update the auto-completion list from the text typed by the user. The list is only shown
+     * when the user is typing something, unless `showAll` is true.
+     */
+    updateAutocomplete(showAll: boolean = false) {
+        const query = trim(this.taginput.value);
+
+        if (query == '' && !showAll) {
+            this.hideAutocomplete();
+            return;
+        }
+
+        const value: Array<any> = this.model.get('value');
+        const allowDuplicates: boolean = this.model.get('allow_duplicates');
+
+        // Suggestions are matched against the text as it would be added
+        const normalizedQuery = this.normalizeText(query);
+        const values = new Set<string>(value.map((tagValue: any) => JSON.stringify(this.getMatchKey(tagValue))));
+
+        const matches: SuggestionMatch[] = [];
+        const matchedKeys = new Set<string>();
+        for (const option of this.getSuggestions()) {
+            // Don't suggest values that cannot be added anymore
+            const optionKey = JSON.stringify(this.getMatchKey(option.value));
+            if (!allowDuplicates && values.has(optionKey)) {
+                continue;
+            }
+
+            const match = query == '' ? { option, score: 0, indices: [] } : matchSuggestion(normalizedQuery, option);
+            if (match != null) {
+                matches.push(match);
+                matchedKeys.add(optionKey);
+            }
+        }
+
+        for (const option of this.remoteSuggestions) {
+            const optionKey = JSON.stringify(this.getMatchKey(option.value));
+            if ((!allowDuplicates && values.has(optionKey)) || matchedKeys.has(optionKey)) {
+                continue;
+            }
+
+            // The backend may match suggestions its own way, its answer to the current query is kept as is
+            const match = matchSuggestion(normalizedQuery, option);
+            if (match != null) {
+                matches.push(match);
+            } else if (this.remoteQuery == query) {
+                matches.push({ option, score: Number.MAX_VALUE, indices: [] });
+            }
+        }
+
+        // Array.prototype.sort is not guaranteed to be stable, keep the original order for equal scores
+        const order = new Map(matches.map((match, index) : [SuggestionMatch, number] => [match, index]));
+        matches.sort((a, b) => a.score - b.score || order.get(a)! - order.get(b)!);
+
+        this.suggestions = matches.slice(0, this.model.get('max_suggestions')).map((match) => match.option);
+        this.activeSuggestion = -1;
+
+        removeChildren(this.autocompleteList);
+
+        if (!this.suggestions.length) {
+            this.hideAutocomplete();
+            return;
+        }
+
+        this.suggestions.forEach((option: TagOption, index: number) => {
+            const text = option.label;
+            const item = document.createElement('div');
+            item.classList.add('jupyter-widget-tagsinput-suggestion');
+            item.id = this.autocompleteList.id + '-' + index;
+            item.setAttribute('role', 'option');
+
+            // Group consecutive matched characters in highlighted spans
+            const indices = matches[index].indices;
+            let start = 0;
+            while (start < text.length) {
+                const highlighted = indices.includes(start);
+                let end = start + 1;
+                while (end < text.length && indices.includes(end) == highlighted) {
+                    end++;
                 }
-                break;
-            case 'Delete':
-                if (this.selection) {
-                    this.removeSelectedTags();
+
+                if (highlighted) {
+                    const span = document.createElement('span');
+                    span.classList.add('jupyter-widget-tagsinput-suggestion-match');
+                    span.textContent = text.slice(start, end);
+                    item.appendChild(span);
                 } else {
-                    this.removeTag(this.inputIndex);
+                    item.appendChild(document.createTextNode(text.slice(start, end)));
                 }
-                break;
-            default:
-                // Do nothing by default
-                return;
-                break;
-        }
 
-        // Reset selection is shift key is not pressed
-        if (!event.shiftKey) {
-            this.selection = null;
+                start = end;
+            }
+
+            if (option.description) {
+                const description = document.createElement('span');
+                description.classList.add('jupyter-widget-tagsinput-suggestion-description');
+                description.textContent = option.description;
+                item.appendChild(description);
+            }
+
+            // Prevent the input element from losing focus
+            item.onmousedown = (event: MouseEvent) => {
+                event.preventDefault();
+                this.acceptSuggestion(index);
+            };
+            item.onmouseenter = () => {
+                this.setActiveSuggestion(index);
+            };
+
+            this.autocompleteList.appendChild(item);
+        });
+
+        if (this.autocompleteList.style.display == 'none') {
+            // The list follows the input element when the page or one of its containers is scrolled
+            window.addEventListener('scroll', this.positionAutocomplete, true);
+            window.addEventListener('resize', this.positionAutocomplete);
         }
 
-        this.inputIndex = clamp(this.inputIndex, 0, valueLength);
+        this.autocompleteList.style.display = 'block';
+        this.positionAutocomplete();
+        this.taginput.setAttribute('aria-expanded', 'true');
+    }
 
-        this.update();
-        this.focus();
+    /**
+     * Place the auto-completion list below the input element. The widget clips its overflowing content,
+     * the list is placed relative to the viewport instead.
+     */
+    positionAutocomplete() {
+        const rect = this.taginput.getBoundingClientRect();
+        this.autocompleteList.style.left = rect.left + 'px';
+        this.autocompleteList.style.top = rect.bottom + 'px';
     }
 
     /**
-     * Function that gets called when a tag with a given `value` is being dragged.
+     * Returns the tags that can be suggested to the user
      */
-    ondragstart(event: DragEvent, index: number, tagValue: any, origin: string) {
-        if (event.dataTransfer == null) {
-            return;
-        }
-        event.dataTransfer.setData('index', String(index));
-        event.dataTransfer.setData('tagValue', String(tagValue));
-        event.dataTransfer.setData('origin', origin);
+    getSuggestions() : Array<TagOption> {
+        return this.allowedOptions;
     }
 
     /**
-     * Function that gets called when a tag has been dragged on the tag at the `index` position.
+     * Update the allowed tags and their labels
      */
-    ondrop(event: DragEvent, index: number) {
-        if (event.dataTransfer == null) {
-            return;
+    updateAllowedTags() {
+        this.allowedOptions = this.model.get('allowed_tags').map(toTagOption);
+
+        this.optionsByValue = new Map<string, TagOption>();
+        this.allowedLabels = new Map<string, string>();
+        for (const option of this.allowedOptions) {
+            this.optionsByValue.set(String(option.value), option);
+            this.allowedLabels.set(String(option.value), option.label);
         }
-        event.preventDefault();
-        event.stopPropagation();
+    }
+
+    /**
+     * Returns the label of a tag, which is shown to the user instead of its value
+     */
+    getTagLabel(value: any) : string {
+        const option = this.optionsByValue.get(String(value));
+
+        return option == undefined ? this.getTagText(value) : option.label;
+    }
+
+    /**
+     * Returns the description of a tag, an empty string if it has none
+     */
+    getTagDescription(value: any) : string {
+        const option = this.optionsByValue.get(String(value));
 
-        const draggedTagValue: string = event.dataTransfer.getData('tagValue');
-        const draggedTagindex: number = parseInt(event.dataTransfer.getData('index'));
-        const sameOrigin = event.dataTransfer.getData('origin') == this.model.model_id;
+        return option == undefined ? '' : option.description;
+    }
 
-        // If something else than a tag was dropped, draggedTagindex should be NaN
-        if (isNaN(draggedTagindex)) {
+    /**
+     * Handle a custom message sent by the backend
+     */
+    handleMessage(content: any) {
+        if (content.event != 'suggestions') {
             return;
         }
 
-        // If it's the same origin, the drag and drop results in a reordering
-        if (sameOrigin) {
-            const value: Array<any> = this.model.get('value');
+        // Discard the answers to outdated queries, the user kept typing in the meantime
+        if (content.id != this.queryId) {
+            return;
+        }
 
-            const newValue = [...value];
+        this.remoteSuggestions = content.suggestions.map(toTagOption);
+        this.remoteQuery = content.query;
 
-            // If the old position is on the left of the new position, we need to re-index the new position
-            // after removing the tag at the old position
-            if (draggedTagindex < index) {
-                index--;
+        // Remember the labels of the suggested tags, so that they are shown once added
+        for (const option of this.remoteSuggestions) {
+            if (!this.optionsByValue.has(String(option.value))) {
+                this.optionsByValue.set(String(option.value), option);
             }
+        }
 
-            newValue.splice(draggedTagindex, 1); // Removing at the old position
-            newValue.splice(index, 0, draggedTagValue); // Adding at the new one
+        if (document.activeElement === this.taginput) {
+            this.updateAutocomplete();
+        }
+    }
 
-            this.model.set('value', newValue);
-            this.model.save_changes();
+    /**
+     * Hide the auto-completion list
+     */
+    hideAutocomplete() {
+        window.removeEventListener('scroll', this.positionAutocomplete, true);
+        window.removeEventListener('resize', this.positionAutocomplete);
+
+        this.autocompleteList.style.display = 'none';
+        this.taginput.setAttribute('aria-expanded', 'false');
+        this.taginput.removeAttribute('aria-activedescendant');
+        this.suggestions = [];
+        this.activeSuggestion = -1;
+    }
+
+    /**
+     * Mark the suggestion at the `index` position as the one the user is about to choose
+     */
+    setActiveSuggestion(index: number) {
+        const items = this.autocompleteList.children;
+
+        if (this.activeSuggestion >= 0 && this.activeSuggestion < items.length) {
+            items[this.activeSuggestion].classList.remove('mod-active');
+        }
+
+        this.activeSuggestion = index;
+
+        if (index >= 0 && index < items.length) {
+            items[index].classList.add('mod-active');
+            items[index].scrollIntoView({ block: 'nearest' });
+            this.taginput.setAttribute('aria-activedescendant', items[index].id);
+        }
+    }
+
+    /**
+     * Add the suggestion at the `index` position as a new tag
+     */
+    acceptSuggestion(index: number) {
+        const tagIndex = this.inputIndex;
+        const option = this.suggestions[index];
+
+        this.hideAutocomplete();
 
+        if (this.completeSuggestion(option)) {
+            this.focus();
             return;
         }
 
-        // Else we add a new tag with the given draggedTagValue
-        this.addTag(index, draggedTagValue);
+        if (this.addTag(tagIndex, option.value)) {
+            this.taginput.value = '';
+            this.resizeInput();
+        }
+        this.focus();
     }
 
-    ondragover(event: DragEvent) {
-        // This is needed for the drag and drop to work
-        event.preventDefault();
+    /**
+     * Complete the text typed in the input element with a suggestion which is only a part of a tag.
+     * Return true if the suggestion was handled, false if it should be added as a tag
+     */
+    completeSuggestion(option: TagOption) : boolean {
+        return false;
     }
 
-    ondragenter(event: DragEvent, index: number) {
-        if (this.hoveredTag != null && this.hoveredTag != this.tags[index]) {
-            this.hoveredTag.style.marginLeft = '1px';
+    /**
+     * Update the tags, called when the selection has changed and we need to update the tags CSS.
+     * Only the tags which were selected or are now selected are updated.
+     */
+    updateTags() {
+        const value: Array<any> = this.model.get('value');
+        const selectedIndices = new Set<number>(this.selection == null ? [] : this.selection.getIndices());
+
+        for (const index of new Set([...this.selectedIndices, ...selectedIndices])) {
+            if (index === this.editIndex || index >= this.tags.length) {
+                continue;
+            }
+
+            this.refreshTag(this.tags[index], value[index], index, selectedIndices.has(index));
         }
+        this.selectedIndices = selectedIndices;
 
-        this.hoveredTag = this.tags[index];
-        this.hoveredTagIndex = index;
-        this.hoveredTag.style.marginLeft = '30px';
+        this.syncSelection();
     }
 
-    ondragend() {
-        if (this.hoveredTag != null) {
-            this.hoveredTag.style.marginLeft = '1px';
+    /**
+     * Move the input element to the `index` position
+     */
+    moveInput(index: number) {
+        this.inputIndex = clamp(index, 0, this.tags.length);
+        this.placeInput();
+    }
+
+    /**
+     * Update the ARIA attributes of a tag
+     */
+    updateTagAccessibility(tag: HTMLElement, value: any, selected: boolean) {
+        tag.setAttribute('role', 'gridcell');
+        tag.setAttribute('aria-label', this.getTagLabel(value));
+        tag.setAttribute('aria-selected', String(selected));
+    }
+
+    /**
+     * Make sure that only the focused tag can be reached with the Tab key
+     */
+    updateRovingTag() {
+        const tag = this.focusedTagIndex < this.tags.length ? this.tags[this.focusedTagIndex] : null;
+
+        if (tag === this.rovingTag) {
+            return;
         }
-        this.hoveredTag = null;
-        this.hoveredTagIndex = null;
+
+        if (this.rovingTag != null) {
+            this.setTagTabIndex(this.rovingTag, -1);
+        }
+        if (tag != null) {
+            this.setTagTabIndex(tag, 0);
+        }
+        this.rovingTag = tag;
     }
 
     /**
-     * Select tags from `start` to `start + dx` not included.
+     * Set the tab index of a tag and of its buttons, the buttons of the focused tag being reached with the Tab key
      */
-    select(start: number, dx: number) {
-        const valueLength = this.model.get('value').length;
+    setTagTabIndex(tag: HTMLElement, tabIndex: number) {
+        tag.tabIndex = tabIndex;
 
-        if (!this.selection) {
-            this.selection = new Selection(start, dx, valueLength);
-        } else {
-            this.selection.updateSelection(dx);
+        const buttons = tag.querySelectorAll('[role="button"]');
+        for (let i = 0; i < buttons.length; i++) {
+            (buttons[i] as HTMLElement).tabIndex = tabIndex;
         }
     }
 
-    /**
-     * Remove all the selected tags.
-     */
-    removeSelectedTags() {
-        const value: Array<string> = [...this.model.get('value')];
-        const valueLength = value.length;
+    /**
+     * Create the button removing a tag
+     */
+    createRemoveButton(value: any) : HTMLElement {
+        const i = document.createElement('i');
+        i.classList.add('fa');
+        i.classList.add('fa-times');
+        i.classList.add('jupyter-widget-tag-close');
+        i.setAttribute('role', 'button');
+        i.setAttribute('aria-label', 'Remove ' + this.getTagLabel(value));
+        i.tabIndex = -1;
+
+        // The position of the tag changes when tags are added or removed before it
+        const tagIndex = () => this.tags.indexOf(i.parentElement as HTMLElement);
+
+        i.onmousedown = (event: MouseEvent) => {
+            // Removing a tag should not select it
+            event.stopPropagation();
+            this.removeTag(tagIndex());
+            this.loseFocus();
+        };
+        i.onkeydown = (event: KeyboardEvent) => {
+            if (event.key == 'Enter' || event.key == ' ') {
+                event.preventDefault();
+                event.stopPropagation();
+
+                const index = tagIndex();
+                this.removeTag(index);
+                this.focusTag(index);
+            }
+        };
+
+        return i;
+    }
+
+    /**
+     * Sync the selected indices with the `selected_indices` attribute
+     */
+    syncSelection() {
+        const indices = this.selection == null ? [] : this.selection.getIndices();
+
+        // The view does not depend on the selected indices, it is not rendered again when they change
+        if (!_.isEqual(indices, this.model.get('selected_indices'))) {
+            this.model.set('selected_indices', indices, { silent: true });
+            this.model.save_changes();
+        }
+    }
+
+    /**
+     * Handle a new value is added from the input element
+     */
+    handleValueAdded(event: Event) {
+        const tagsAdded = this.addTagsFromText(this.taginput.value);
+
+        if (tagsAdded) {
+            // Keep focus on the input allowing the user to add more tags
+            this.focus();
+        }
+    }
+
+    /**
+     * Handle text pasted in the input element, splitting it into multiple tags if it contains separators
+     */
+    handlePaste(event: ClipboardEvent) {
+        if (event.clipboardData == null) {
+            return;
+        }
+
+        // Tags copied from a tags widget keep their type, other data is pasted as text
+        const copiedValues = parseCopiedValues(event.clipboardData.getData(TAGS_MIME_TYPE));
+        if (copiedValues != null && !this.taginput.value.length) {
+            event.preventDefault();
+
+            const rejectedValues = this.addTags(this.inputIndex, copiedValues);
+
+            this.taginput.value = rejectedValues.map((value: any) => this.getEditText(value)).join(this.getSeparator());
+            this.resizeInput();
+            this.focus();
+            return;
+        }
+
+        const input = this.taginput;
+        const start = input.selectionStart == null ? input.value.length : input.selectionStart;
+        const end = input.selectionEnd == null ? input.value.length : input.selectionEnd;
+        const text = input.value.slice(0, start) + event.clipboardData.getData('text/plain') + input.value.slice(end);
+
+        // Let the browser paste a single value in the input element
+        if (this.splitText(text).length <= 1) {
+            return;
+        }
+
+        event.preventDefault();
+
+        this.addTagsFromText(text);
+        this.focus();
+    }
+
+    /**
+     * Handle copy and cut events on the input element, putting the selected tags in the clipboard
+     */
+    handleCopy(event: ClipboardEvent) {
+        if (event.clipboardData == null || this.taginput.value.length || this.selection == null) {
+            return;
+        }
+
+        const selectedValues = this.getSelectedValues();
+        if (!selectedValues.length) {
+            return;
+        }
+
+        event.preventDefault();
+
+        const text = selectedValues.map((value: any) => this.getEditText(value)).join(this.getSeparator());
+        event.clipboardData.setData('text/plain', text);
+        event.clipboardData.setData(TAGS_MIME_TYPE, JSON.stringify(selectedValues));
+
+        if (event.type == 'cut') {
+            this.removeSelectedTags();
+            this.focus();
+        }
+    }
+
+    /**
+     * Split a text typed, pasted or dropped by the user into the texts of its tags
+     */
+    splitText(text: string) : string[] {
+        return splitTags(text, this.getSeparators());
+    }
+
+    /**
+     * Split `text` using the separators and add the resulting tags at the input position.
+     * Pieces that could not be added are left in the input element.
+     * Return true if at least one tag was added, false otherwise
+     */
+    addTagsFromText(text: string) : boolean {
+        const tagValues = this.splitText(text);
+
+        if (!tagValues.length) {
+            return false;
+        }
+
+        const rejectedValues = this.addTags(this.inputIndex, tagValues);
+
+        this.taginput.value = rejectedValues.join(this.getSeparator());
+        this.resizeInput();
+
+        return rejectedValues.length < tagValues.length;
+    }
+
+    /**
+     * Add a new tag with a value of `tagValue` at the `index` position
+     * Return true if the tag was correctly added, false otherwise
+     */
+    addTag(index: number, tagValue: any) : boolean {
+        return this.addTags(index, [tagValue]).length == 0;
+    }
+
+    /**
+     * Add new tags with the values `tagValues` in order, starting at the `index` position.
+     * The value is updated once for all the tags.
+     * Return the values that could not be added
+     */
+    addTags(index: number, tagValues: Array<any>) : Array<any> {
+        // Making a copy so that backbone sees the change
+        const newValue = [...this.model.get('value')];
+        const rejectedValues: Array<any> = [];
+        const errors: string[] = [];
+
+        let insertIndex = index;
+        for (const tagValue of tagValues) {
+            const pieceIndex = insertIndex;
+
+            // Typed text may stand for several tags, e.g. a range of numbers. They are added all together,
+            // or the text is given back as typed if one of them is rejected
+            try {
+                const expandedValues = typeof tagValue == 'string' ? this.expandValue(tagValue) : [tagValue];
+
+                for (const expandedValue of expandedValues) {
+                    const newTagValue = this.checkValue(expandedValue, newValue);
+
+                    newValue.splice(insertIndex, 0, newTagValue);
+                    insertIndex++;
+                }
+            }
+            catch (error) {
+                newValue.splice(pieceIndex, insertIndex - pieceIndex);
+                insertIndex = pieceIndex;
+
+                rejectedValues.push(tagValue);
+                errors.push(String(error));
+            }
+        }
+
+        const addedCount = insertIndex - index;
+        if (addedCount == 0) {
+            this.showError(errors[0]);
+            return rejectedValues;
+        }
+
+        // Move the input to the right if we add tags before it
+        let inputIndex = index <= this.inputIndex ? this.inputIndex + addedCount : this.inputIndex;
+
+        const addedValues = newValue.slice(index, insertIndex);
+
+        // Remove the tags made redundant by the added tags, moving the input to the left if they are before it
+        const impliedIndices = this.getImpliedIndices(newValue);
+        inputIndex -= impliedIndices.filter((impliedIndex: number) => impliedIndex < inputIndex).length;
+
+        if (impliedIndices.length) {
+            this.setValue(newValue.filter((tagValue: any, tagIndex: number) => !impliedIndices.includes(tagIndex)), inputIndex);
+        } else {
+            this.setValue(newValue, inputIndex, null, { start: index, previousEnd: index, end: insertIndex });
+        }
+
+        this.announce(addedValues.map((tagValue: any) => this.getTagLabel(tagValue)).join(', ') + ' added');
+
+        this.showError(errors.length ? errors[0] : '');
+
+        return rejectedValues;
+    }
+
+    /**
+     * Check that `tagValue` can be added to `value`, returning the validated tag value.
+     * `tagValue` is either typed by the user or a value coming from another tags widget.
+     * Throw an error message if it cannot be added.
+     */
+    checkValue(tagValue: any, value: Array<any>) : any {
+        const maxTags: number | null = this.model.get('max_tags');
+        if (maxTags != null && value.length >= maxTags) {
+            throw 'At most ' + maxTags + ' tags are allowed';
+        }
+
+        tagValue = this.normalizeValue(tagValue);
+
+        // The user may type the label of an allowed tag instead of its value
+        if (typeof tagValue == 'string') {
+            const option = this.allowedOptions.find((option: TagOption) => this.valuesMatch(option.label, tagValue));
+            if (option != undefined) {
+                tagValue = option.value;
+            }
+        }
+
+        let newTagValue = typeof tagValue == 'string' ? this.validateValue(tagValue) : this.validateTypedValue(tagValue);
+
+        // Values matching an allowed tag are replaced by its canonical spelling
+        if (this.allowedOptions.length) {
+            const option = this.allowedOptions.find((option: TagOption) => this.valuesMatch(option.value, newTagValue));
+            if (option == undefined) {
+                throw tagValue + ' is not an allowed tag';
+            }
+            newTagValue = option.value;
+        }
+
+        const conflictIndex = this.findConflict(newTagValue, value);
+        if (conflictIndex != -1) {
+            // Remember the conflicting value so that the existing tag gets highlighted
+            this.duplicatedValue = value[conflictIndex];
+
+            throw this.getConflictMessage(tagValue, newTagValue, value[conflictIndex]);
+        }
+
+        return newTagValue;
+    }
+
+    /**
+     * Returns why `newTagValue`, typed as `tagValue`, cannot be added because of the existing `otherValue`
+     */
+    getConflictMessage(tagValue: any, newTagValue: any, otherValue: any) : string {
+        if (!this.valuesMatch(newTagValue, otherValue)) {
+            return tagValue + ' conflicts with ' + this.getTagLabel(otherValue);
+        }
+
+        return tagValue + ' is already in the list';
+    }
+
+    /**
+     * Returns the indices of the tags of `value` made redundant by other tags, which are removed when tags are added.
+     * There are none by default.
+     */
+    getImpliedIndices(value: Array<any>) : Array<number> {
+        return [];
+    }
+
+    /**
+     * Returns the index of the tag in `value` preventing `tagValue` from being added, -1 if there is none.
+     * By default this is an equal tag if duplicates are not allowed.
+     */
+    findConflict(tagValue: any, value: Array<any>) : number {
+        if (this.model.get('allow_duplicates')) {
+            return -1;
+        }
+
+        return value.findIndex((otherValue: any) => this.valuesMatch(otherValue, tagValue));
+    }
+
+    /**
+     * Apply the `normalize` steps to a text typed by the user
+     */
+    normalizeText(text: string) : string {
+        for (const step of this.model.get('normalize')) {
+            switch (step) {
+                case 'lowercase':
+                    text = text.toLowerCase();
+                    break;
+                case 'uppercase':
+                    text = text.toUpperCase();
+                    break;
+                case 'collapse_whitespace':
+                    text = trim(text).replace(/\s+/g, ' ');
+                    break;
+                default:
+                    // Unicode normalization forms: 'nfc', 'nfd', 'nfkc' or 'nfkd'
+                    text = text.normalize(step.toUpperCase());
+                    break;
+            }
+        }
+
+        return text;
+    }
+
+    /**
+     * Apply the `normalize` steps to a tag value, to each of its items if it is an array, e.g. a key-value pair
+     */
+    normalizeValue(value: any) : any {
+        if (Array.isArray(value)) {
+            return value.map((item: any) => this.normalizeValue(item));
+        }
+
+        return typeof value == 'string' ? this.normalizeText(value) : value;
+    }
+
+    /**
+     * Returns what a tag value is compared by, normalized and ignoring case unless `case_sensitive` is set.
+     * Arrays, e.g. key-value pairs, are compared item by item
+     */
+    getMatchKey(value: any) : any {
+        if (Array.isArray(value)) {
+            return value.map((item: any) => this.getMatchKey(item));
+        }
+
+        if (typeof value != 'string') {
+            return value;
+        }
+
+        const text = this.normalizeText(value);
+
+        return this.model.get('case_sensitive') ? text : text.toLowerCase();
+    }
+
+    /**
+     * Whether two tag values are considered the same
+     */
+    valuesMatch(a: any, b: any) : boolean {
+        return _.isEqual(this.getMatchKey(a), this.getMatchKey(b));
+    }
+
+    /**
+     * Show why a tag value has been rejected on the input element, and sync it with the `error` attribute.
+     * An empty message clears the error.
+     */
+    showError(message: string) {
+        const input = this.editIndex == null ? this.taginput : this.tagEditor;
+
+        if (message) {
+            input.classList.add('mod-error');
+            input.title = message;
+            this.announce(message);
+        } else {
+            input.classList.remove('mod-error');
+            input.removeAttribute('title');
+        }
+        this.errorMessage.textContent = this.editIndex == null ? message : '';
+
+        if (this.model.get('error') != message) {
+            this.model.set('error', message, { silent: true });
+            this.model.save_changes();
+        }
+
+        if (this.duplicatedValue !== undefined) {
+            this.highlightTag(this.model.get('value').indexOf(this.duplicatedValue));
+            this.duplicatedValue = undefined;
+        }
+    }
+
+    /**
+     * Draw the attention of the user on the tag at the `index` position
+     */
+    highlightTag(index: number) {
+        const tag = this.tags[index];
+
+        if (tag == undefined) {
+            return;
+        }
+
+        // Restart the animation if the tag is already highlighted
+        tag.classList.remove('mod-highlight');
+        void tag.offsetWidth;
+        tag.classList.add('mod-highlight');
+
+        tag.onanimationend = () => {
+            tag.classList.remove('mod-highlight');
+        };
+    }
+
+    /**
+     * Returns the strings splitting typed or pasted text into multiple tags
+     */
+    getSeparators() : string[] {
+        return this.model.get('separators');
+    }
+
+    /**
+     * Returns the separator used for joining multiple tag values in the input element
+     */
+    getSeparator() : string {
+        const separators = this.getSeparators();
+
+        // Line breaks cannot be displayed in the input element
+        const separator = separators.find((separator: string) => separator.length > 0 && !/[\r\n]/.test(separator));
+
+        return separator == undefined ? ' ' : separator;
+    }
+
+    /**
+     * Resize the input element
+     */
+    resizeInput() {
+        let size = this.taginput.value.length + 1;
+        this.taginput.setAttribute('size', String(size));
+    }
+
+    /**
+     * Handle key events on the input element
+     */
+    handleKeyEvent(event: KeyboardEvent) {
+        const valueLength = this.model.get('value').length;
+
+        // Navigation in the auto-completion list
+        if (this.suggestions.length) {
+            const suggestionsLength = this.suggestions.length;
+
+            switch (event.key) {
+                case 'ArrowDown':
+                    event.preventDefault();
+                    this.setActiveSuggestion((this.activeSuggestion + 1) % suggestionsLength);
+                    return;
+                case 'ArrowUp':
+                    event.preventDefault();
+                    this.setActiveSuggestion((this.activeSuggestion + suggestionsLength - 1) % suggestionsLength);
+                    return;
+                case 'Escape':
+                    event.preventDefault();
+                    this.hideAutocomplete();
+                    return;
+            }
+
+            if (this.activeSuggestion >= 0 && this.model.get('commit_keys').includes(event.key)) {
+                event.preventDefault();
+                this.acceptSuggestion(this.activeSuggestion);
+                return;
+            }
+        }
+
+        // Commit keys and typed separators add what the user typed as a tag
+        if (this.model.get('commit_keys').includes(event.key) || this.getSeparators().includes(event.key)) {
+            if (this.taginput.value.length) {
+                event.preventDefault();
+                this.hideAutocomplete();
+                this.handleValueAdded(event);
+                return;
+            }
+
+            // There is nothing to commit, don't type a lone separator
+            if (event.key.length == 1 && trim(event.key) != '') {
+                event.preventDefault();
+            }
+        }
+
+        // Do nothing if the user is typing something
+        if (this.taginput.value.length) {
+            return;
+        }
+
+        // Undo with Ctrl+Z, redo with Ctrl+Shift+Z or Ctrl+Y, select all with Ctrl+A (Cmd instead of Ctrl on macOS)
+        if (event.ctrlKey || event.metaKey) {
+            const key = event.key.toLowerCase();
+
+            if (key == 'a') {
+                event.preventDefault();
+                this.selection = new Selection(0, valueLength, valueLength);
+                this.updateTags();
+                return;
+            }
+
+            if (key == 'z' || key == 'y') {
+                event.preventDefault();
+
+                if (key == 'y' || event.shiftKey) {
+                    this.redo();
+                } else {
+                    this.undo();
+                }
+                return;
+            }
+        }
+
+        // Reorder tags with Alt+Arrow, Alt+Home and Alt+End
+        if (event.altKey && ['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(event.key)) {
+            event.preventDefault();
+            this.moveSelectedTags(event.key);
+            return;
+        }
+
+        const currentElement: number = this.inputIndex;
+        let inputIndex = currentElement;
+        switch (event.key) {
+            case 'ArrowLeft':
+                if (event.ctrlKey && event.shiftKey) {
+                    this.select(currentElement, -currentElement);
+                }
+                if (!event.ctrlKey && event.shiftKey) {
+                    this.select(currentElement, -1);
+                }
+
+                inputIndex = event.ctrlKey ? 0 : currentElement - 1;
+                break;
+            case 'ArrowRight':
+                if (event.ctrlKey && event.shiftKey) {
+                    this.select(currentElement, valueLength - currentElement);
+                }
+                if (!event.ctrlKey && event.shiftKey) {
+                    this.select(currentElement, 1);
+                }
+
+                inputIndex = event.ctrlKey ? valueLength : currentElement + 1;
+                break;
+            case 'Backspace':
+                if (this.selection) {
+                    this.removeSelectedTags();
+                } else {
+                    this.removeTag(this.inputIndex - 1);
+                }
+                inputIndex = this.inputIndex;
+                break;
+            case 'Delete':
+                if (this.selection) {
+                    this.removeSelectedTags();
+                } else {
+                    this.removeTag(this.inputIndex);
+                }
+                inputIndex = this.inputIndex;
+                break;
+            case 'ArrowDown':
+                // Show all the suggestions
+                event.preventDefault();
+                this.updateAutocomplete(true);
+                return;
+            case 'F2':
+                // Edit the tag on the left of the input, or the first one if the input is at the beginning
+                event.preventDefault();
+                if (valueLength) {
+                    this.editTag(Math.max(this.inputIndex - 1, 0));
+                }
+                return;
+            default:
+                // Do nothing by default
+                return;
+                break;
+        }
+
+        // Reset selection is shift key is not pressed
+        if (!event.shiftKey) {
+            this.selection = null;
+        }
+
+        // Only the tags the input element moves past and the tags whose selection changed are updated
+        this.moveInput(inputIndex);
+        this.updateTags();
+        this.focus();
+    }
+
+    /**
+     * Replace the tag at the `index` position by an input element allowing the user to edit its value
+     */
+    editTag(index: number) {
+        const value: Array<any> = this.model.get('value');
+
+        this.tagEditor = document.createElement('input');
+        this.tagEditor.classList.add('jupyter-widget-tag');
+        this.tagEditor.classList.add('jupyter-widget-taginput');
+        this.tagEditor.classList.add('jupyter-widget-tageditor');
+        this.tagEditor.value = this.getEditText(value[index]);
+        this.tagEditor.setAttribute('size', String(this.tagEditor.value.length + 1));
+
+        this.tagEditor.oninput = () => {
+            this.tagEditor.setAttribute('size', String(this.tagEditor.value.length + 1));
+        };
+        this.tagEditor.onkeydown = (event: KeyboardEvent) => {
+            switch (event.key) {
+                case 'Enter':
+                    event.preventDefault();
+                    this.commitEdit();
+                    break;
+                case 'Escape':
+                    event.preventDefault();
+                    this.cancelEdit();
+                    break;
+            }
+        };
+        this.tagEditor.onblur = () => {
+            if (!this.preventLoosingFocus) {
+                this.cancelEdit();
+            }
+        };
+        // Prevent the widget from moving the focus to the main input element
+        this.tagEditor.onclick = (event: MouseEvent) => {
+            event.stopPropagation();
+        };
+
+        this.editIndex = index;
+        this.selection = null;
+        this.update();
+
+        this.tagEditor.select();
+    }
+
+    /**
+     * Replace the value of the edited tag with the content of the tag editor.
+     * The editor stays open if the new value is not valid.
+     */
+    commitEdit() {
+        if (this.editIndex == null) {
+            return;
+        }
+
+        const index = this.editIndex;
+        const text = trim(this.tagEditor.value);
+
+        // Removing the content of a tag removes the tag, unless there would be too few tags left
+        if (text == '') {
+            if (!this.canRemoveTags(1)) {
+                return;
+            }
+
+            this.editIndex = null;
+            this.removeTag(index);
+            this.focus();
+            return;
+        }
+
+        if (!this.replaceTag(index, text)) {
+            return;
+        }
+
+        this.editIndex = null;
+        this.update();
+        this.focus();
+    }
+
+    /**
+     * Stop editing a tag, leaving its value unchanged
+     */
+    cancelEdit() {
+        if (this.editIndex == null) {
+            return;
+        }
+
+        this.editIndex = null;
+        this.update();
+        this.focus();
+    }
+
+    /**
+     * Replace the value of the tag at the `index` position with `tagValue`
+     * Return true if the tag was correctly replaced, false otherwise
+     */
+    replaceTag(index: number, tagValue: string) : boolean {
+        // Making a copy so that backbone sees the change
+        const newValue = [...this.model.get('value')];
+
+        // The tag being replaced should not be seen as a duplicate of its new value
+        const otherValues = [...newValue];
+        otherValues.splice(index, 1);
+
+        let newTagValue: any;
+        try {
+            newTagValue = this.checkValue(tagValue, otherValues);
+        }
+        catch (error) {
+            this.showError(String(error));
+            return false;
+        }
+
+        newValue[index] = newTagValue;
+
+        this.setValue(newValue, this.inputIndex, null, { start: index, previousEnd: index + 1, end: index + 1 });
+
+        this.showError('');
+
+        return true;
+    }
+
+    /**
+     * Returns the text that should be used for editing a tag, this is the raw value, not the displayed text
+     */
+    getEditText(value: any) : string {
+        const option = this.optionsByValue.get(String(value));
+
+        return option == undefined ? String(value) : option.label;
+    }
+
+    /**
+     * Function that gets called when the tag at the `index` position is being dragged.
+     * If this tag is selected, all the selected tags are dragged along with it.
+     */
+    ondragstart(event: DragEvent, index: number) {
+        if (event.dataTransfer == null) {
+            return;
+        }
+
+        const payload = this.createDragPayload(index);
+        const values = payload.values;
+
+        // The values are sent as JSON to preserve their type, and as text for other applications
+        event.dataTransfer.setData(TAGS_MIME_TYPE, JSON.stringify(payload));
+        event.dataTransfer.setData('text/plain', values.map((tagValue: any) => this.getEditText(tagValue)).join(this.getSeparator()));
+        event.dataTransfer.effectAllowed = 'copyMove';
+
+        activeDrag = { view: this, payload };
+    }
+
+    /**
+     * Create the data describing the tags dragged from the `index` position.
+     * If this tag is selected, all the selected tags are dragged along with it.
+     */
+    createDragPayload(index: number) : DragPayload {
+        const value: Array<any> = this.model.get('value');
+
+        const indices = this.selection != null && this.selection.isSelected(index) ? this.selection.getIndices() : [index];
+
+        return {
+            origin: this.model.model_id,
+            group: this.model.get('drag_group'),
+            indices,
+            values: indices.map((tagIndex: number) => value[tagIndex])
+        };
+    }
+
+    /**
+     * Start a long press on a tag with a touch screen or a pen, picking the tag up if the pointer does not move
+     */
+    handleTagPointerDown(event: PointerEvent, tag: HTMLElement) {
+        // Mouse pointers use the native drag and drop, which also works with other applications
+        if (event.pointerType == 'mouse' || !event.isPrimary) {
+            return;
+        }
+
+        const cancel = () => {
+            window.clearTimeout(timeout);
+            tag.removeEventListener('pointermove', onpointermove);
+            tag.removeEventListener('pointerup', cancel);
+            tag.removeEventListener('pointercancel', cancel);
+        };
+
+        // Moving the pointer before the end of the long press scrolls the page instead
+        const onpointermove = (moveEvent: PointerEvent) => {
+            const distance = Math.hypot(moveEvent.clientX - event.clientX, moveEvent.clientY - event.clientY);
+            if (distance > TagsInputBaseView.long_press_tolerance) {
+                cancel();
+            }
+        };
+
+        const timeout = window.setTimeout(() => {
+            cancel();
+
+            const index = this.tags.indexOf(tag);
+            if (index != -1) {
+                this.startPointerDrag(event, index);
+            }
+        }, TagsInputBaseView.long_press_delay);
+
+        tag.addEventListener('pointermove', onpointermove);
+        tag.addEventListener('pointerup', cancel);
+        tag.addEventListener('pointercancel', cancel);
+    }
+
+    /**
+     * Drag the tag at the `index` position with the pointer of `event`, a ghost of the tag following the pointer.
+     * Tags are dropped where the pointer is released, using the same logic as the native drag and drop.
+     */
+    startPointerDrag(event: PointerEvent, index: number) {
+        const tag = this.tags[index];
+        const payload = this.createDragPayload(index);
+
+        activeDrag = { view: this, payload };
+
+        const rect = tag.getBoundingClientRect();
+        const offsetX = event.clientX - rect.left;
+        const offsetY = event.clientY - rect.top;
+
+        const ghost = tag.cloneNode(true) as HTMLElement;
+        ghost.classList.add('jupyter-widget-tag-ghost');
+        ghost.removeAttribute('tabindex');
+        ghost.removeAttribute('role');
+        ghost.setAttribute('aria-hidden', 'true');
+        ghost.style.width = rect.width + 'px';
+        document.body.appendChild(ghost);
+
+        let target: TagsInputBaseView | null = null;
+
+        const move = (x: number, y: number) => {
+            ghost.style.left = (x - offsetX) + 'px';
+            ghost.style.top = (y - offsetY) + 'px';
+
+            // The ghost does not receive pointer events, the element under it is found
+            const element = document.elementFromPoint(x, y);
+            const view = findView(element);
+
+            if (target != null && target != view) {
+                target.hideDropIndex();
+            }
+
+            target = view != null && view.acceptsDrop(payload) ? view : null;
+            if (target != null) {
+                target.showDropIndex(target.getDropIndex(element, x));
+            }
+        };
+
+        const preventDefault = (otherEvent: Event) => {
+            otherEvent.preventDefault();
+        };
+
+        const finish = () => {
+            document.removeEventListener('pointermove', onpointermove);
+            document.removeEventListener('pointerup', onpointerup);
+            document.removeEventListener('pointercancel', onpointercancel);
+            document.removeEventListener('contextmenu', preventDefault);
+            this.pointerDragging = false;
+
+            ghost.remove();
+            if (target != null) {
+                target.hideDropIndex();
+            }
+
+            activeDrag = null;
+            this.preventLoosingFocus = false;
+        };
+
+        const onpointermove = (moveEvent: PointerEvent) => {
+            if (moveEvent.pointerId == event.pointerId) {
+                move(moveEvent.clientX, moveEvent.clientY);
+            }
+        };
+
+        const onpointerup = (upEvent: PointerEvent) => {
+            if (upEvent.pointerId != event.pointerId) {
+                return;
+            }
+
+            const dropTarget: TagsInputBaseView | null = target;
+            const dropIndex = dropTarget == null ? null : dropTarget.dropIndex;
+
+            finish();
+
+            if (dropTarget != null && dropIndex != null) {
+                dropTarget.dropTags(payload, dropIndex, upEvent.ctrlKey || upEvent.altKey, this);
+            }
+        };
+
+        const onpointercancel = (cancelEvent: PointerEvent) => {
+            if (cancelEvent.pointerId == event.pointerId) {
+                finish();
+            }
+        };
+
+        // The tag keeps receiving the events of the pointer wherever it goes, they bubble to the document
+        tag.setPointerCapture(event.pointerId);
+        document.addEventListener('pointermove', onpointermove);
+        document.addEventListener('pointerup', onpointerup);
+        document.addEventListener('pointercancel', onpointercancel);
+
+        // Prevent the page from scrolling and the context menu from opening while dragging
+        this.pointerDragging = true;
+        document.addEventListener('contextmenu', preventDefault);
+
+        move(event.clientX, event.clientY);
+
+        this.announce(payload.values.map((tagValue: any) => this.getTagLabel(tagValue)).join(', ') + ' picked up');
+    }
+
+    /**
+     * Function that gets called when something has been dropped on the tag at the `index` position.
+     * Tags dragged from another widget of the same drag group are moved, or copied if the Ctrl or Alt key is pressed.
+     * Text dragged from another application is split into tags.
+     */
+    ondrop(event: DragEvent, index: number) {
+        if (event.dataTransfer == null) {
+            return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+
+        const copy = event.ctrlKey || event.altKey;
+
+        // Invalid tags data is ignored, the text is dropped instead
+        const payload = parseDragPayload(event.dataTransfer.getData(TAGS_MIME_TYPE));
+        if (payload != null) {
+            // Tags dragged from another page cannot be removed from their widget, they are copied
+            const source = activeDrag != null && activeDrag.payload.origin == payload.origin ? activeDrag.view : null;
+            activeDrag = null;
+
+            this.dropTags(payload, index, copy, source);
+
+            return;
+        }
+
+        const text = event.dataTransfer.getData('text/plain');
+        if (text && this.acceptsDrop(null)) {
+            this.addTags(index, this.splitText(text));
+        }
+    }
+
+    /**
+     * Drop tags dragged from the `source` view at the `index` position.
+     * Tags dragged from this widget are reordered, tags from another widget of the same drag group are moved.
+     * Tags are copied instead if `copy` is true, or if the source view is unknown.
+     */
+    dropTags(payload: DragPayload, index: number, copy: boolean, source: TagsInputBaseView | null) {
+        // If it's the same origin, the drag and drop results in a reordering
+        if (payload.origin == this.model.model_id) {
+            if (copy) {
+                this.addTags(index, payload.values);
+            } else {
+                this.moveTags(payload.indices, index);
+            }
+
+            return;
+        }
+
+        if (!this.acceptsDrop(payload)) {
+            return;
+        }
+
+        if (copy || source == null) {
+            this.addTags(index, payload.values);
+            return;
+        }
+
+        if (!source.canRemoveTags(payload.values.length)) {
+            return;
+        }
+
+        const rejectedValues = this.addTags(index, payload.values);
+
+        // Only remove the tags that were accepted by this widget
+        const movedIndices = payload.indices.filter((tagIndex: number, i: number) => {
+            const rejectedIndex = rejectedValues.indexOf(payload.values[i]);
+            if (rejectedIndex == -1) {
+                return true;
+            }
+            rejectedValues.splice(rejectedIndex, 1);
+            return false;
+        });
+
+        source.removeTags(movedIndices);
+    }
+
+    /**
+     * Whether the tags described by `payload` can be dropped in this widget, `payload` being null
+     * for text dragged from another application
+     */
+    acceptsDrop(payload: DragPayload | null) : boolean {
+        // Tags cannot be reordered while they are sorted
+        if (payload != null && payload.origin == this.model.model_id) {
+            return !this.isSorted();
+        }
+
+        return this.model.get('accept_drops') && (payload == null || payload.group == this.model.get('drag_group'));
+    }
+
+    /**
+     * Returns the position where tags dropped on `target` at the `clientX` horizontal coordinate are inserted
+     */
+    getDropIndex(target: EventTarget | null, clientX: number) : number {
+        const tag = target instanceof Element ? target.closest('.jupyter-widget-tag') : null;
+        const index = tag == null ? -1 : this.tags.indexOf(tag as HTMLElement);
+
+        if (index == -1) {
+            return this.tags.length;
+        }
+
+        // Insert after the tag if its right half is hovered
+        const rect = this.tags[index].getBoundingClientRect();
+
+        return clientX > rect.left + rect.width / 2 ? index + 1 : index;
+    }
+
+    /**
+     * Show where dropped tags are inserted
+     */
+    showDropIndex(index: number) {
+        if (index == this.dropIndex) {
+            return;
+        }
+
+        this.hideDropIndex();
+        this.dropIndex = index;
+
+        // Dropped tags are put in order if the tags are sorted
+        if (this.isSorted()) {
+            return;
+        }
+
+        if (index < this.tags.length) {
+            this.tags[index].classList.add('mod-drop-before');
+            return;
+        }
+
+        // Show the insertion point after the last visible tag
+        const visibleTags = this.tags.filter((tag: HTMLElement) => tag.style.display != 'none');
+        if (visibleTags.length) {
+            visibleTags[visibleTags.length - 1].classList.add('mod-drop-after');
+        }
+    }
+
+    /**
+     * Hide the insertion point of dropped tags
+     */
+    hideDropIndex() {
+        for (const tag of this.tags) {
+            tag.classList.remove('mod-drop-before', 'mod-drop-after');
+        }
+        this.dropIndex = null;
+    }
+
+    /**
+     * Move the tags at the given `indices` so that they form a block at the `index` position, `index` being
+     * a position in the list before the move. The moved tags are selected.
+     * Return the position of the block after the move
+     */
+    moveTags(indices: Array<number>, index: number) : number {
+        const value: Array<any> = this.model.get('value');
+
+        const movedIndices = [...indices].sort((a: number, b: number) => a - b);
+        const movedValues = movedIndices.map((movedIndex: number) => value[movedIndex]);
+
+        const movedSet = new Set(movedIndices);
+        const newValue = value.filter((tagValue: any, tagIndex: number) => !movedSet.has(tagIndex));
+
+        // If old positions are on the left of the new position, we need to re-index the new position
+        // after removing the tags at the old positions
+        const newIndex = index - movedIndices.filter((movedIndex: number) => movedIndex < index).length;
+
+        newValue.splice(newIndex, 0, ...movedValues);
+
+        // Only the tags between the first moved tag and the end of the moved block change
+        const start = movedIndices.length ? Math.min(movedIndices[0], newIndex) : 0;
+        const end = movedIndices.length ? Math.max(movedIndices[movedIndices.length - 1] + 1, newIndex + movedValues.length) : 0;
+
+        this.setValue(newValue, this.inputIndex, new Selection(newIndex, movedValues.length, newValue.length),
+                      { start, previousEnd: end, end });
+
+        this.announce(movedValues.map((tagValue: any) => this.getTagLabel(tagValue)).join(', ') + ' moved to position ' + (newIndex + 1));
+
+        return newIndex;
+    }
+
+    /**
+     * Move the selected tags, or the tag on the left of the input element, one position to the left/right
+     * or to the beginning/end of the list. The input element follows the moved tags.
+     */
+    moveSelectedTags(key: string) {
+        if (this.isSorted()) {
+            return;
+        }
+
+        const valueLength = this.model.get('value').length;
+
+        let indices = this.selection == null ? [] : this.selection.getIndices();
+        if (!indices.length) {
+            // Move the first tag if the input is at the beginning
+            const index = Math.max(this.inputIndex - 1, 0);
+            if (index >= valueLength) {
+                return;
+            }
+            indices = [index];
+        }
+
+        let index: number;
+        switch (key) {
+            case 'ArrowLeft':
+                index = Math.max(indices[0] - 1, 0);
+                break;
+            case 'ArrowRight':
+                index = Math.min(indices[indices.length - 1] + 2, valueLength);
+                break;
+            case 'Home':
+                index = 0;
+                break;
+            default:
+                index = valueLength;
+                break;
+        }
+
+        const newIndex = this.moveTags(indices, index);
+
+        this.moveInput(newIndex + indices.length);
+        this.updateTags();
+        this.focus();
+    }
+
+    ondragover(event: DragEvent) {
+        // This is needed for the drag and drop to work
+        event.preventDefault();
+
+        if (event.dataTransfer == null) {
+            return;
+        }
+
+        if (!this.acceptsDrop(activeDrag == null ? null : activeDrag.payload)) {
+            event.dataTransfer.dropEffect = 'none';
+            return;
+        }
+
+        event.dataTransfer.dropEffect = event.ctrlKey || event.altKey ? 'copy' : 'move';
+        this.showDropIndex(this.getDropIndex(event.target, event.clientX));
+    }
+
+    ondragend() {
+        this.preventLoosingFocus = false;
+        activeDrag = null;
+    }
+
+    /**
+     * Select tags from `start` to `start + dx` not included.
+     */
+    select(start: number, dx: number) {
+        const valueLength = this.model.get('value').length;
+
+        if (!this.selection) {
+            this.selection = new Selection(start, dx, valueLength);
+        } else {
+            this.selection.updateSelection(dx);
+        }
+    }
+
+    /**
+     * Handle key events on the tag at the `index` position
+     */
+    handleTagKeyEvent(event: KeyboardEvent, index: number) {
+        const valueLength = this.model.get('value').length;
+
+        switch (event.key) {
+            case 'ArrowLeft':
+            case 'ArrowRight':
+                const target = event.key == 'ArrowLeft' ? index - 1 : index + 1;
+
+                if (event.shiftKey) {
+                    if (this.selection == null) {
+                        this.selection = new Selection(index, 1, valueLength);
+                    }
+                    this.selection.extendTo(clamp(target, 0, valueLength - 1));
+                    this.updateTags();
+                }
+
+                // Going right from the last tag reaches the input element
+                if (target >= valueLength) {
+                    this.moveInput(valueLength);
+                    this.focus();
+                } else {
+                    this.focusTag(target);
+                }
+                break;
+            case 'Home':
+                this.focusTag(0);
+                break;
+            case 'End':
+                this.focusTag(valueLength - 1);
+                break;
+            case ' ':
+                if (this.selection == null) {
+                    this.selection = new Selection(index, 0, valueLength);
+                }
+                this.selection.toggle(index);
+                this.updateTags();
+                break;
+            case 'Enter':
+            case 'F2':
+                this.editTag(index);
+                break;
+            case 'Delete':
+            case 'Backspace':
+                if (this.selection != null && this.selection.isSelected(index)) {
+                    this.removeSelectedTags();
+                } else {
+                    this.removeTag(index);
+                }
+                this.focusTag(index);
+                break;
+            case 'Escape':
+                this.selection = null;
+                this.updateTags();
+                this.focus();
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    /**
+     * Make the tag at the `index` position the one reached with the Tab key
+     */
+    setFocusedTag(index: number) {
+        this.focusedTagIndex = index;
+        this.updateRovingTag();
+    }
+
+    /**
+     * Move the focus to the tag at the `index` position, or to the input element if there is no tag left
+     */
+    focusTag(index: number) {
+        if (!this.tags.length) {
+            this.inputIndex = 0;
+            this.focus();
+            return;
+        }
+
+        index = clamp(index, 0, this.tags.length - 1);
+
+        this.setFocusedTag(index);
+        this.tags[index].focus();
+    }
+
+    /**
+     * Announce a change to screen reader users
+     */
+    announce(message: string) {
+        this.liveRegion.textContent = message;
+    }
+
+    /**
+     * Handle a click on the tag at the `index` position: select it, extend the selection to it with Shift,
+     * or add/remove it from the selection with Ctrl (Cmd on macOS)
+     */
+    handleTagClick(event: MouseEvent, index: number) {
+        const valueLength = this.model.get('value').length;
+
+        this.preventLoosingFocus = false;
+
+        if (event.shiftKey && this.selection != null) {
+            this.selection.extendTo(index);
+        } else if (event.ctrlKey || event.metaKey) {
+            if (this.selection == null) {
+                this.selection = new Selection(index, 0, valueLength);
+            }
+            this.selection.toggle(index);
+        } else {
+            this.selection = new Selection(index, 1, valueLength);
+        }
+
+        this.updateTags();
+    }
+
+    /**
+     * Returns the values of the selected tags
+     */
+    getSelectedValues() : Array<any> {
+        const value: Array<any> = this.model.get('value');
+
+        return value.filter((tagValue: any, index: number) => this.selection != null && this.selection.isSelected(index));
+    }
+
+    /**
+     * Remove all the selected tags.
+     */
+    removeSelectedTags() {
+        this.removeTags(this.selection == null ? [] : this.selection.getIndices());
+    }
+
+    /**
+     * Remove the tags at the given `indices`
+     */
+    removeTags(indices: Array<number>) {
+        const value: Array<any> = this.model.get('value');
+
+        const removedIndices = indices.filter((index: number) => index >= 0 && index < value.length);
+        const removedValues = removedIndices.map((index: number) => value[index]);
+
+        if (!this.canRemoveTags(removedValues.length)) {
+            return;
+        }
+
+        const removedSet = new Set(removedIndices);
+        const newValue = value.filter((tagValue: any, index: number) => !removedSet.has(index));
+
+        // Move the input to the left if we remove tags that are before the input
+        const inputIndex = this.inputIndex - [...removedSet].filter((index: number) => index < this.inputIndex).length;
+
+        // Only the tags between the first and the last removed tags change
+        const start = removedIndices.reduce((a: number, b: number) => Math.min(a, b), value.length);
+        const previousEnd = removedIndices.reduce((a: number, b: number) => Math.max(a, b + 1), start);
+
+        this.setValue(newValue, inputIndex, null,
+                      { start, previousEnd, end: previousEnd - value.length + newValue.length });
+
+        this.announce(removedValues.map((tagValue: any) => this.getTagLabel(tagValue)).join(', ') + ' removed');
+    }
+
+    /**
+     * Remove a tag given its index in the list
+     */
+    removeTag(tagIndex: number) {
+        const value: Array<string> = [...this.model.get('value')];
+
+        if (tagIndex < 0 || tagIndex >= value.length || !this.canRemoveTags(1)) {
+            return;
+        }
+
+        const removedValue = value.splice(tagIndex, 1)[0];
+
+        // Move the input to the left if we remove a tag that is before the input
+        const inputIndex = tagIndex < this.inputIndex ? this.inputIndex - 1 : this.inputIndex;
+
+        this.setValue(value, inputIndex, null, { start: tagIndex, previousEnd: tagIndex + 1, end: tagIndex });
+
+        this.announce(this.getTagLabel(removedValue) + ' removed');
+    }
+
+    /**
+     * Returns why a value of `length` tags is not allowed by `min_tags` and `max_tags`, an empty string if it is allowed
+     */
+    getCountError(length: number) : string {
+        const minTags: number | null = this.model.get('min_tags');
+        const maxTags: number | null = this.model.get('max_tags');
+
+        if (minTags != null && length < minTags) {
+            return 'At least ' + minTags + ' tags are required';
+        }
+        if (maxTags != null && length > maxTags) {
+            return 'At most ' + maxTags + ' tags are allowed';
+        }
+
+        return '';
+    }
+
+    /**
+     * Check that `count` tags can be removed without going below the minimum number of tags, showing an error otherwise
+     */
+    canRemoveTags(count: number) : boolean {
+        const minTags: number | null = this.model.get('min_tags');
+
+        if (minTags != null && this.model.get('value').length - count < minTags) {
+            this.showError('At least ' + minTags + ' tags are required');
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Set a new value from the view, moving the input element to `inputIndex` and replacing the selection.
+     * The current state is recorded in the undo history. `change` is the range of the value which changed
+     * if it is known, so that only its tags are rendered again.
+     */
+    setValue(newValue: Array<any>, inputIndex: number = this.inputIndex, selection: Selection | null = null,
+             change: ValueChange | null = null) {
+        this.undoHistory.push(this.getHistoryState());
+        if (this.undoHistory.length > TagsInputBaseView.history_size) {
+            this.undoHistory.shift();
+        }
+        this.redoHistory = [];
+
+        // Tags cannot be put at a given position in a sorted list, the input element goes back to the end
+        if (this.isSorted()) {
+            newValue = this.sortValue(newValue);
+            inputIndex = newValue.length;
+            change = null;
+        }
+
+        this.inputIndex = inputIndex;
+        this.selection = selection;
+        this.changedValue = change == null ? null : newValue;
+        this.valueChange = change;
+
+        this.settingValue = true;
+        this.model.set('value', newValue);
+        this.model.save_changes();
+        this.settingValue = false;
+    }
+
+    /**
+     * Whether the tags are kept sorted
+     */
+    isSorted() : boolean {
+        return this.model.get('sort') != 'none';
+    }
+
+    /**
+     * Returns a sorted copy of `value` following the `sort` order, equal tags keeping their order
+     */
+    sortValue(value: Array<any>) : Array<any> {
+        const direction = this.model.get('sort') == 'desc' ? -1 : 1;
+
+        return value
+            .map((tagValue: any, index: number) : [any, number] => [tagValue, index])
+            .sort((a: [any, number], b: [any, number]) => direction * this.compareValues(a[0], b[0]) || a[1] - b[1])
+            .map((entry: [any, number]) => entry[0]);
+    }
+
+    /**
+     * Compare two tag values for sorting, numbers being compared as numbers and other values by their sort keys,
+     * the same way as in the Python widget
+     */
+    compareValues(a: any, b: any) : number {
+        const keyA = this.getSortKey(a);
+        const keyB = this.getSortKey(b);
+
+        if (typeof keyA == 'number' && typeof keyB == 'number') {
+            return keyA - keyB;
+        }
+
+        return compareNatural(String(keyA), String(keyB));
+    }
+
+    /**
+     * Returns what a tag value is sorted by, the label of an allowed tag or the value itself.
+     * Labels of suggestions are not used, the Python widget does not know them.
+     */
+    getSortKey(value: any) : any {
+        if (typeof value == 'number') {
+            return value;
+        }
+
+        const label = this.allowedLabels.get(String(value));
+        return label == undefined ? String(value) : label;
+    }
+
+    /**
+     * Returns the current value, input position and selection, allowing to restore them later
+     */
+    getHistoryState() : HistoryState {
+        return {
+            value: this.model.get('value'),
+            inputIndex: this.inputIndex,
+            selection: this.selection == null ? null : this.selection.copy()
+        };
+    }
+
+    /**
+     * Restore a state previously returned by `getHistoryState`.
+     * Return false if it cannot be restored because the number of tags is not allowed anymore
+     */
+    restoreHistoryState(state: HistoryState) : boolean {
+        const countError = this.getCountError(state.value.length);
+        if (countError) {
+            this.showError(countError);
+            return false;
+        }
+
+        this.inputIndex = state.inputIndex;
+        this.selection = state.selection;
+
+        this.settingValue = true;
+        this.model.set('value', state.value);
+        this.model.save_changes();
+        this.settingValue = false;
+
+        this.update();
+        this.focus();
+
+        return true;
+    }
+
+    /**
+     * Revert the last change of the value made from this view
+     */
+    undo() {
+        const state = this.undoHistory.pop();
+        if (state == undefined) {
+            return;
+        }
+
+        const currentState = this.getHistoryState();
+        if (!this.restoreHistoryState(state)) {
+            this.undoHistory.push(state);
+            return;
+        }
+        this.redoHistory.push(currentState);
+    }
+
+    /**
+     * Apply again the last change reverted by `undo`
+     */
+    redo() {
+        const state = this.redoHistory.pop();
+        if (state == undefined) {
+            return;
+        }
+
+        const currentState = this.getHistoryState();
+        if (!this.restoreHistoryState(state)) {
+            this.redoHistory.push(state);
+            return;
+        }
+        this.undoHistory.push(currentState);
+    }
+
+    /**
+     * Focus on the input element
+     */
+    focus() {
+        this.taginputWrapper.style.display = 'inline-block';
+        this.expand();
+        this.taginput.focus();
+    }
+
+    /**
+     * Show all the tags
+     */
+    expand() {
+        if (this.collapsed) {
+            this.collapsed = false;
+            this.update();
+        }
+    }
+
+    /**
+     * Only show the first `max_visible_tags` tags
+     */
+    collapse() {
+        if (!this.collapsed) {
+            this.collapsed = true;
+            this.update();
+        }
+    }
+
+    /**
+     * Lose focus on the input element
+     */
+    loseFocus() {
+        if (this.preventLoosingFocus) {
+            return;
+        }
+
+        // Only hide the input if we have tags displayed
+        if (this.model.get('value').length) {
+            this.taginputWrapper.style.display = 'none';
+        }
+
+        this.selection = null;
+        this.updateTags();
+
+        this.collapse();
+    }
+
+    /**
+     * The default tag name.
+     *
+     * #### Notes
+     * This is a read-only attribute.
+     */
+    get tagName() {
+        // We can't make this an attribute with a default value
+        // since it would be set after it is needed in the
+        // constructor.
+        return 'div';
+    }
+
+    /**
+     * Returns the text describing a tag, used by assistive technologies
+     */
+    getTagText(value: any) : string {
+        return String(value);
+    }
+
+    /**
+     * Expand a text typed by the user into the values of the tags it stands for, which are then validated.
+     * By default the text stands for one tag.
+     */
+    expandValue(value: string) : Array<any> {
+        return [value];
+    }
+
+    /**
+     * Validate an input tag typed by the user, returning the correct tag type. This should be overridden in subclasses.
+     */
+    validateValue(value: string) : any {
+        return value;
+    }
+
+    /**
+     * Validate a value which is not a string, e.g. a number copied from another tags widget, returning the correct tag type.
+     */
+    validateTypedValue(value: any) : any {
+        return this.validateValue(String(value));
+    }
+
+    abstract createTag(value: any, index: number, selected: boolean) : HTMLElement;
+    abstract updateTag(tag: HTMLElement, value: any, index: number, selected: boolean) : void;
+
+    el: HTMLDivElement;
+    tagGrid: HTMLDivElement;
+    tagList: HTMLDivElement;
+    taginputWrapper: HTMLDivElement;
+    taginput: HTMLInputElement;
+    autocompleteList: HTMLDivElement;
+    suggestions: Array<TagOption> = [];
+    activeSuggestion: number = -1;
+    querySuggestions: () => void;
+    queryId: number = 0;
+    remoteSuggestions: Array<TagOption> = [];
+    allowedOptions: Array<TagOption> = [];
+    allowedLabels = new Map<string, string>();
+    optionsByValue = new Map<string, TagOption>();
+    remoteQuery: string = '';
+    tags: HTMLElement[] = [];
+    renderedValue: Array<any> = [];
+    renderedEditIndex: number | null = null;
+    renderedVisibleLimit: number = Infinity;
+    changedValue: Array<any> | null = null;
+    valueChange: ValueChange | null = null;
+    refreshAll: boolean = false;
+    selectedIndices = new Set<number>();
+    rovingTag: HTMLElement | null = null;
+    overflowChip: HTMLDivElement;
+    collapsed: boolean = true;
+    tagEditor: HTMLInputElement;
+    liveRegion: HTMLDivElement;
+    focusedTagIndex: number = 0;
+    errorMessage: HTMLSpanElement;
+    duplicatedValue: any = undefined;
+    editIndex: number | null = null;
+    dropIndex: number | null = null;
+    inputIndex: number;
+    selection: null | Selection
+    preventLoosingFocus: boolean;
+    undoHistory: HistoryState[] = [];
+    redoHistory: HistoryState[] = [];
+    settingValue: boolean = false;
+    pointerDragging: boolean = false;
+
+    model: TagsInputBaseModel;
+
+    static history_size = 100;
+    static long_press_delay = 500;
+    static long_press_tolerance = 10;
+}
+
+export
+class TagsInputModel extends TagsInputBaseModel {
+    defaults() {
+        return _.extend(super.defaults(), {
+            value: [],
+            tag_style: '',
+            tag_styles: {},
+            tag_tree: null,
+            path_separator: '/',
+            parent_mode: 'independent',
+            _view_name: 'TagsInputView',
+            _model_name: 'TagsInputModel',
+        });
+    }
+}
+
+export
+class TagsInputView extends TagsInputBaseView {
+    render() {
+        this.model.on('change:tag_style', this.refreshTags.bind(this));
+
+        this.updateTagStylePatterns();
+        this.model.on('change:tag_styles', () => {
+            this.updateTagStylePatterns();
+
+            const value: Array<any> = this.model.get('value');
+            this.tags.forEach((tag: HTMLElement, index: number) => {
+                if (index !== this.editIndex) {
+                    this.applyTagStyle(tag, value[index], tag.classList.contains('mod-active'));
+                }
+            });
+        });
+
+        this.model.on('change:tag_tree change:path_separator', this.refreshTags.bind(this));
+
+        super.render();
+    }
+
+    /**
+     * Create the string tag
+     */
+    createTag(value: string, index: number, selected: boolean) : HTMLDivElement {
+        const tag = document.createElement('div');
+
+        tag.classList.add('jupyter-widget-tag');
+
+        if (selected) {
+            tag.classList.add('mod-active');
+        }
+
+        this.applyTagStyle(tag, value, selected);
+
+        if (this.model.get('tag_tree') == null) {
+            tag.appendChild(document.createTextNode(this.getTagLabel(value)));
+        } else {
+            this.appendBreadcrumb(tag, value);
+        }
+
+        tag.appendChild(this.createRemoveButton(value));
+
+        return tag;
+    }
+
+    /**
+     * Render a tag path as a breadcrumb, the ancestors being collapsed until the tag is hovered, focused or selected
+     */
+    appendBreadcrumb(tag: HTMLElement, value: string) {
+        const path = this.splitPath(value);
+        const name = path.pop();
+
+        if (path.length) {
+            const ellipsis = document.createElement('span');
+            ellipsis.classList.add('jupyter-widget-tag-ellipsis');
+            ellipsis.textContent = '\u2026 \u203a ';
+            ellipsis.setAttribute('aria-hidden', 'true');
+            tag.appendChild(ellipsis);
+
+            const ancestors = document.createElement('span');
+            ancestors.classList.add('jupyter-widget-tag-ancestors');
+            ancestors.textContent = path.map((ancestor: string) => ancestor + ' \u203a ').join('');
+            tag.appendChild(ancestors);
+        }
+
+        const leaf = document.createElement('span');
+        leaf.classList.add('jupyter-widget-tag-leaf');
+        leaf.textContent = name == undefined ? '' : name;
+        tag.appendChild(leaf);
+    }
+
+    /**
+     * Split a tag path into the names of its nodes, ignoring blank names
+     */
+    splitPath(value: string) : string[] {
+        return value.split(this.model.get('path_separator')).map(trim).filter((name: string) => name.length > 0);
+    }
+
+    /**
+     * Whether the tag path `ancestor` is an ancestor of the tag path `value`
+     */
+    isAncestor(ancestor: string, value: string) : boolean {
+        return value.startsWith(ancestor + this.model.get('path_separator'));
+    }
+
+    /**
+     * In hierarchical mode, tags are paths of the tag tree
+     */
+    validateValue(value: string) : any {
+        const tree = this.model.get('tag_tree');
+        if (tree == null) {
+            return super.validateValue(value);
+        }
+
+        const path = this.splitPath(value);
+        if (!path.length || getTreeNode(tree, path) == null) {
+            throw value + ' is not in the tag tree';
+        }
+
+        return path.join(this.model.get('path_separator'));
+    }
+
+    /**
+     * Depending on `parent_mode`, a tag conflicts with its ancestors, or also with its descendants
+     */
+    findConflict(tagValue: any, value: Array<any>) : number {
+        const parentMode: string = this.model.get('parent_mode');
+
+        if (this.model.get('tag_tree') != null && parentMode != 'independent') {
+            const index = value.findIndex((otherValue: string) => {
+                return this.isAncestor(otherValue, tagValue) || (parentMode == 'conflicts' && this.isAncestor(tagValue, otherValue));
+            });
+            if (index != -1) {
+                return index;
+            }
+        }
+
+        return super.findConflict(tagValue, value);
+    }
+
+    getConflictMessage(tagValue: any, newTagValue: any, otherValue: any) : string {
+        if (this.model.get('parent_mode') == 'implies' && this.isAncestor(otherValue, newTagValue)) {
+            return tagValue + ' is already implied by ' + this.getTagLabel(otherValue);
+        }
+
+        return super.getConflictMessage(tagValue, newTagValue, otherValue);
+    }
+
+    /**
+     * If parents imply their children, the descendants of a tag are redundant
+     */
+    getImpliedIndices(value: Array<any>) : Array<number> {
+        if (this.model.get('tag_tree') == null || this.model.get('parent_mode') != 'implies') {
+            return [];
+        }
+
+        const impliedIndices: Array<number> = [];
+        value.forEach((tagValue: string, index: number) => {
+            if (value.some((otherValue: string) => this.isAncestor(otherValue, tagValue))) {
+                impliedIndices.push(index);
+            }
+        });
+
+        return impliedIndices;
+    }
+
+    /**
+     * In hierarchical mode, suggest the children of the path typed before the last separator
+     */
+    getSuggestions() : Array<TagOption> {
+        const tree = this.model.get('tag_tree');
+        if (tree == null) {
+            return super.getSuggestions();
+        }
+
+        const separator: string = this.model.get('path_separator');
+        const text = this.taginput.value;
+        const parentPath = this.splitPath(text.slice(0, Math.max(text.lastIndexOf(separator), 0)));
+
+        const children = getTreeNode(tree, parentPath);
+        if (children == null) {
+            return [];
+        }
+
+        return Object.keys(children).map((name: string) => {
+            const path = parentPath.concat([name]).join(separator);
+            const childCount = Object.keys(getTreeChildren(children[name])).length;
+
+            return {
+                value: path,
+                label: path,
+                description: childCount ? childCount + ' subtags' : ''
+            };
+        });
+    }
+
+    /**
+     * Accepting a suggestion which has subtags completes its path, its subtags are suggested next
+     */
+    completeSuggestion(option: TagOption) : boolean {
+        const tree = this.model.get('tag_tree');
+        if (tree == null) {
+            return false;
+        }
+
+        const children = getTreeNode(tree, this.splitPath(option.value));
+        if (children == null || !Object.keys(children).length) {
+            return false;
+        }
+
+        this.taginput.value = option.value + this.model.get('path_separator');
+        this.resizeInput();
+        this.updateAutocomplete();
+
+        return true;
+    }
+
+    /**
+     * Returns the text that should be displayed in the tag element
+     */
+    getTagText(value: string) {
+        return value;
+    }
+
+    /**
+     * Update a given tag
+     */
+    updateTag(tag: HTMLDivElement, value: any, index: number, selected: boolean) : void {
+        if (selected) {
+            tag.classList.add('mod-active');
+        } else {
+            tag.classList.remove('mod-active');
+        }
+
+        this.applyTagStyle(tag, value, selected);
+    }
+
+    /**
+     * Compile the `tag_styles` keys written as regular expressions, e.g. '/^bug-/'
+     */
+    updateTagStylePatterns() {
+        const tagStyles: Dict<string> = this.model.get('tag_styles');
+
+        this.tagStylePatterns = [];
+        for (const key of Object.keys(tagStyles)) {
+            const match = /^\/(.*)\/([a-z]*)$/.exec(key);
+            if (match == null) {
+                continue;
+            }
+
+            try {
+                this.tagStylePatterns.push([new RegExp(match[1], match[2]), tagStyles[key]]);
+            }
+            catch (error) {
+                // Not a valid regular expression, the key can still match a tag value exactly
+            }
+        }
+    }
+
+    /**
+     * Returns the style of a tag from `tag_styles`, falling back to `tag_style`.
+     * This is either one of the predefined styles or a CSS color.
+     */
+    getTagStyle(value: any) : string {
+        const tagStyles: Dict<string> = this.model.get('tag_styles');
+        const text = String(value);
+
+        if (tagStyles.hasOwnProperty(text)) {
+            return tagStyles[text];
+        }
+
+        for (const [pattern, style] of this.tagStylePatterns) {
+            if (pattern.test(text)) {
+                return style;
+            }
+        }
+
+        return this.model.get('tag_style');
+    }
+
+    /**
+     * Apply the style of a tag, a custom color being darkened when the tag is selected
+     */
+    applyTagStyle(tag: HTMLElement, value: any, selected: boolean) {
+        const style = this.getTagStyle(value);
+
+        for (const key of Object.keys(TagsInputView.class_map)) {
+            tag.classList.toggle(TagsInputView.class_map[key], key == style);
+        }
+
+        const color = TagsInputView.class_map.hasOwnProperty(style) || style == '' ? null : d3Color.color(style);
+        if (color == null) {
+            tag.style.backgroundColor = '';
+            tag.style.color = '';
+            return;
+        }
+
+        const backgroundColor: string = selected ? color.darker().toString() : color.toString();
+        tag.style.backgroundColor = backgroundColor;
+        tag.style.color = contrastingTextColor(backgroundColor);
+    }
+
+    model: TagsInputModel;
+    tagStylePatterns: Array<[RegExp, string]> = [];
+
+    static class_map: Dict<string> = {
+        primary: 'mod-primary',
+        success: 'mod-success',
+        info: 'mod-info',
+        warning: 'mod-warning',
+        danger: 'mod-danger'
+    };
+}
+
+export
+class ColorsInputModel extends TagsInputBaseModel {
+    defaults() {
+        return _.extend(super.defaults(), {
+            value: [],
+            label_format: 'none',
+            output_format: '',
+            _view_name: 'ColorsInputView',
+            _model_name: 'ColorsInputModel',
+        });
+    }
+}
+
+export
+class ColorsInputView extends TagsInputBaseView {
+    render() {
+        super.render();
+
+        this.model.on('change:label_format', this.refreshTags.bind(this));
+
+        // The native color picker opens a popover, picking a color adds it or changes the color of a tag
+        this.colorPicker = document.createElement('input');
+        this.colorPicker.type = 'color';
+        this.colorPicker.classList.add('jupyter-widget-colorpicker');
+        this.colorPicker.setAttribute('aria-label', 'Pick a color');
+        this.colorPicker.title = 'Pick a color';
+
+        this.colorPicker.onmousedown = (event: MouseEvent) => {
+            event.stopPropagation();
+            this.pickedIndex = null;
+            this.preventLoosingFocus = true;
+        };
+        this.colorPicker.onclick = (event: MouseEvent) => {
+            event.stopPropagation();
+        };
+        this.colorPicker.onchange = () => {
+            this.preventLoosingFocus = false;
+            this.handleColorPicked(this.colorPicker.value);
+        };
+        this.colorPicker.onblur = () => {
+            if (this.preventLoosingFocus && document.activeElement !== this.taginput) {
+                this.preventLoosingFocus = false;
+                this.loseFocus();
+            }
+        };
+
+        // The input wrapper is hidden while the widget is not focused, the picker stays after the tags
+        this.el.insertBefore(this.colorPicker, this.tagGrid.nextSibling);
+    }
+
+    /**
+     * Separators inside parentheses do not split colors, e.g. 'rgb(200, 50, 200)'
+     */
+    splitText(text: string) : string[] {
+        return splitTags(text, this.getSeparators(), true);
+    }
+
+    /**
+     * Create the Color tag
+     */
+    createTag(value: string, index: number, selected: boolean) : HTMLDivElement {
+        const tag = document.createElement('div');
+
+        tag.classList.add('jupyter-widget-tag');
+        tag.classList.add('jupyter-widget-colortag');
+
+        if (selected) {
+            tag.classList.add('mod-active');
+        }
+        this.applyColor(tag, value, selected);
+
+        tag.appendChild(this.createPickerButton(value));
+
+        const label = this.getColorLabel(value);
+        if (label) {
+            const text = document.createElement('span');
+            text.classList.add('jupyter-widget-colortag-label');
+            text.textContent = label;
+            tag.appendChild(text);
+        }
+
+        tag.appendChild(this.createRemoveButton(value));
+
+        return tag;
+    }
+
+    /**
+     * Update a given tag
+     */
+    updateTag(tag: HTMLDivElement, value: any, index: number, selected: boolean) : void {
+        if (!selected) {
+            tag.classList.remove('mod-active');
+        } else {
+            tag.classList.add('mod-active');
+        }
+        this.applyColor(tag, value, selected);
+    }
+
+    /**
+     * Set the background color of a tag, darker when it is selected, and a text color readable on it
+     */
+    applyColor(tag: HTMLElement, value: string, selected: boolean) {
+        const backgroundColor: string = selected ? d3Color.color(value).darker().toString() : value;
+
+        tag.style.backgroundColor = backgroundColor;
+        tag.style.color = contrastingTextColor(backgroundColor);
+    }
+
+    /**
+     * Colors are sorted by hue, then by lightness, grays coming first and invalid colors last
+     */
+    compareValues(a: any, b: any) : number {
+        const keyA = getColorSortKey(a);
+        const keyB = getColorSortKey(b);
+
+        if (keyA == null || keyB == null) {
+            return keyA == null && keyB == null ? compareNatural(a, b) : keyA == null ? 1 : -1;
+        }
+
+        return keyA[0] - keyB[0] || keyA[1] - keyB[1];
+    }
+
+    /**
+     * Returns the text displayed on the swatch depending on `label_format`, an empty string for none
+     */
+    getColorLabel(value: string) : string {
+        switch (this.model.get('label_format')) {
+            case 'name':
+                return value;
+            case 'hex':
+                return d3Color.color(value).formatHex();
+            default:
+                return '';
+        }
+    }
+
+    /**
+     * Create the button opening the color picker to change the color of a tag
+     */
+    createPickerButton(value: string) : HTMLElement {
+        const i = document.createElement('i');
+        i.classList.add('fa');
+        i.classList.add('fa-eyedropper');
+        i.classList.add('jupyter-widget-tag-picker');
+        i.setAttribute('role', 'button');
+        i.setAttribute('aria-label', 'Change ' + this.getTagLabel(value));
+        i.tabIndex = -1;
+
+        i.onmousedown = (event: MouseEvent) => {
+            // Changing the color of a tag should not select it
+            event.stopPropagation();
+            this.preventLoosingFocus = true;
+        };
+        i.onclick = (event: MouseEvent) => {
+            event.stopPropagation();
+            this.openColorPicker(this.tags.indexOf(i.parentElement as HTMLElement));
+        };
+        i.onkeydown = (event: KeyboardEvent) => {
+            if (event.key == 'Enter' || event.key == ' ') {
+                event.preventDefault();
+                event.stopPropagation();
+                this.openColorPicker(this.tags.indexOf(i.parentElement as HTMLElement));
+            }
+        };
+
+        return i;
+    }
+
+    /**
+     * Open the color picker to change the color of the tag at the `index` position
+     */
+    openColorPicker(index: number) {
+        const value: Array<string> = this.model.get('value');
+        if (index < 0 || index >= value.length) {
+            return;
+        }
+
+        this.pickedIndex = index;
+        this.colorPicker.value = d3Color.color(value[index]).formatHex();
+        this.colorPicker.click();
+    }
+
+    /**
+     * Add the color picked by the user at the input position, or use it for the tag the picker was opened from
+     */
+    handleColorPicked(color: string) {
+        if (this.pickedIndex == null) {
+            this.addTag(this.inputIndex, color);
+        } else {
+            this.replaceTag(this.pickedIndex, color);
+            this.pickedIndex = null;
+        }
+
+        this.focus();
+    }
+
+    /**
+     * Validate an input tag typed by the user, returning the color in the `output_format`
+     */
+    validateValue(value: string) : any {
+        const color = d3Color.color(value);
+        if (color == null) {
+            throw value + ' is not a valid Color';
+        }
+
+        switch (this.model.get('output_format')) {
+            case 'hex':
+                return color.formatHex();
+            case 'rgb':
+                return color.formatRgb();
+            case 'hsl':
+                return color.formatHsl();
+            default:
+                return value;
+        }
+    }
+
+    colorPicker: HTMLInputElement;
+    pickedIndex: number | null = null;
+    model: ColorsInputModel;
+}
+
+abstract class NumbersInputModel extends TagsInputModel {
+    defaults() {
+        return _.extend(super.defaults(), {
+            min: null,
+            max: null,
+            max_expansion: 1000,
+            locale: '',
+        });
+    }
+}
+
+abstract class NumbersInputView extends TagsInputView {
+    render() {
+        // Initialize text formatter
+        this.model.on('change:format change:locale', () => {
+          this.updateLocale();
+          this.refreshTags();
+        });
+        this.updateLocale();
+
+        super.render();
+    }
+
+    /**
+     * Update the separators used to parse numbers and the formatters from the `locale`
+     */
+    updateLocale() {
+        this.numberSymbols = getNumberSymbols(this.model.get('locale'));
+
+        const locale = d3Format.formatLocale({
+            decimal: this.numberSymbols.decimal,
+            thousands: this.numberSymbols.group,
+            grouping: [3],
+            currency: ['', '']
+        });
+        this.formatter = locale.format(this.model.get('format'));
+        this.editFormatter = locale.format('');
+    }
+
+    /**
+     * Returns the text that should be displayed in the tag element
+     */
+    getTagText(value: any) {
+        return this.formatter(Number(value));
+    }
+
+    /**
+     * Numbers are edited without thousands separators, in the locale of the widget
+     */
+    getEditText(value: any) : string {
+        if (this.optionsByValue.has(String(value))) {
+            return super.getEditText(value);
+        }
+
+        return this.editFormatter(Number(value));
+    }
+
+    /**
+     * The decimal separator of the locale does not split tags
+     */
+    getSeparators() : string[] {
+        return super.getSeparators().filter((separator: string) => separator != this.numberSymbols.decimal);
+    }
+
+    /**
+     * Parse a number written in the locale of the widget. A number written with separators that do not match
+     * the locale, e.g. '3,14' in en-US, is rejected instead of being truncated. Return NaN if `value` is not a number.
+     */
+    parseNumber(value: string) : number {
+        const { decimal, group } = this.numberSymbols;
+
+        // Spaces used as thousands separators, e.g. in French, are often typed as regular spaces
+        let text = trim(value).replace(/\u2212/g, '-');
+        if (/\s/.test(group)) {
+            text = text.replace(/\s/g, '');
+        }
+
+        const integerPattern = group == '' || /\s/.test(group) ? '\\d*' : '(?:\\d{1,3}(?:' + escapeRegExp(group) + '\\d{3})+|\\d*)';
+        const localePattern = new RegExp('^[-+]?' + integerPattern + '(?:' + escapeRegExp(decimal) + '\\d*)?(?:[eE][-+]?\\d+)?$');
+
+        if (/\d/.test(text) && localePattern.test(text)) {
+            const withoutGroups = group == '' ? text : text.split(group).join('');
+            return Number(withoutGroups.replace(decimal, '.'));
+        }
+
+        // A point is accepted as decimal separator if the locale does not use it for thousands
+        if (group != '.' && /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(text)) {
+            return Number(text);
+        }
+
+        if (text.includes(decimal) || (group != '' && text.includes(group)) || text.includes('.') || text.includes(',')) {
+            throw value + ' is ambiguous, numbers are written like ' + this.editFormatter(1234.5).replace('1234', '1' + group + '234');
+        }
+
+        return NaN;
+    }
+
+    /**
+     * Validate an input tag typed by the user, returning the correct tag type. This should be overridden in subclasses.
+     */
+    validateValue(value: string) : any {
+        return this.checkNumber(this.parseNumber(value), value);
+    }
+
+    /**
+     * Expand a range of numbers, e.g. '1-10', '1..5' or '0:1:0.25', into one tag per number
+     */
+    expandValue(value: string) : Array<any> {
+        const { decimal, group } = this.numberSymbols;
+        const numberPattern = '[-+\u2212]?[\\d.' + escapeRegExp(decimal + group) + ']+(?:[eE][-+]?\\d+)?';
+
+        const range = parseRange(value, numberPattern, (text: string) => this.parseNumber(text));
+        if (range == null) {
+            return [value];
+        }
+
+        if (isNaN(range.start) || isNaN(range.stop) || isNaN(range.step)) {
+            throw value + ' is not a valid range';
+        }
+
+        const { start, stop, step } = range;
+        if (step == 0 || (stop - start) * step < 0) {
+            throw value + ' is not a valid range';
+        }
+
+        // Tolerate rounding errors on the last number, e.g. with a step of 0.1
+        const count = Math.floor((stop - start) / step + 1e-9) + 1;
+
+        const maxExpansion: number | null = this.model.get('max_expansion');
+        if (maxExpansion != null && count > maxExpansion) {
+            throw value + ' expands to ' + count + ' tags, at most ' + maxExpansion + ' are allowed';
+        }
+
+        const numbers: Array<number> = [];
+        for (let i = 0; i < count; i++) {
+            numbers.push(parseFloat((start + i * step).toPrecision(12)));
+        }
+
+        return numbers;
+    }
+
+    /**
+     * Numbers coming from another tags widget are checked as they are, without parsing them again
+     */
+    validateTypedValue(value: any) : any {
+        if (typeof value != 'number') {
+            return super.validateTypedValue(value);
+        }
+
+        return this.checkNumber(value, String(value));
+    }
+
+    /**
+     * Check that a `parsed` number is in the [min, max] range, `value` being its original text
+     */
+    checkNumber(parsed: number, value: string) : number {
+        const min: number | null = this.model.get('min');
+        const max: number | null = this.model.get('max');
+
+        if (isNaN(parsed) || (min != null && parsed < min) || (max != null && parsed > max)) {
+            throw value + ' is not a valid number, it should be in the range [' + min + ', ' + max + ']';
+        }
+
+        return parsed;
+    }
+
+    formatter: (value: number) => string;
+    editFormatter: (value: number) => string;
+    numberSymbols: NumberSymbols;
+}
+
+export
+class FloatsInputModel extends NumbersInputModel {
+    defaults() {
+        return _.extend(super.defaults(), {
+            _view_name: 'FloatsInputView',
+            _model_name: 'FloatsInputModel',
+            format: '.1f',
+        });
+    }
+}
+
+export
+class FloatsInputView extends NumbersInputView {
+    model: FloatsInputModel;
+}
 
-        // It is simpler to remove from right to left
-        for (let idx = valueLength - 1; idx >= 0; idx--) {
-            if (this.selection != null && this.selection.isSelected(idx)) {
-                value.splice(idx, 1);
+export
+class IntsInputModel extends NumbersInputModel {
+    defaults() {
+        return _.extend(super.defaults(), {
+            _view_name: 'IntsInputView',
+            _model_name: 'IntsInputModel',
+            format: '.3g',
+        });
+    }
+}
 
-                // Move the input to the left if we remove a tag that is before the input
-                if (idx < this.inputIndex) {
-                    this.inputIndex--;
-                }
-            }
+export
+class IntsInputView extends NumbersInputView {
+    checkNumber(parsed: number, value: string) : number {
+        if (!Number.isInteger(parsed)) {
+            throw value + ' should be an integer';
         }
 
-        this.model.set('value', value);
-        this.model.save_changes();
+        return super.checkNumber(parsed, value);
     }
 
-    /**
-     * Remove a tag given its index in the list
-     */
-    removeTag(tagIndex: number) {
-        const value: Array<string> = [...this.model.get('value')];
+    model: IntsInputModel;
+}
 
-        value.splice(tagIndex, 1);
+export
+class DatesInputModel extends TagsInputModel {
+    defaults() {
+        return _.extend(super.defaults(), {
+            _view_name: 'DatesInputView',
+            _model_name: 'DatesInputModel',
+            format: '%Y-%m-%d',
+            min: null,
+            max: null,
+        });
+    }
+}
 
-        // Move the input to the left if we remove a tag that is before the input
-        if (tagIndex < this.inputIndex) {
-            this.inputIndex--;
-        }
+export
+class DatesInputView extends TagsInputView {
+    render() {
+        // Initialize date formatter
+        this.model.on('change:format', () => {
+          this.formatter = d3TimeFormat.utcFormat(this.model.get('format'));
+          this.refreshTags();
+        });
+        this.formatter = d3TimeFormat.utcFormat(this.model.get('format'));
 
-        this.model.set('value', value);
-        this.model.save_changes();
+        super.render();
     }
 
     /**
-     * Focus on the input element
+     * Returns the text that should be displayed in the tag element, dates being synced as ISO strings
      */
-    focus() {
-        this.taginputWrapper.style.display = 'inline-block';
-        this.taginput.focus();
+    getTagText(value: string) {
+        const date: Date | null = DatesInputView.iso_parser(value);
+
+        return date == null ? value : this.formatter(date);
     }
 
     /**
-     * Lose focus on the input element
+     * Validate an input tag typed by the user, returning the date as an ISO string.
+     * The date can be written in the display format, in ISO format or in one of the common `input_formats`,
+     * which put the day before the month. Timestamps are rejected instead of being truncated, the tags are dates.
+     * Impossible dates like 2020-02-30 are rejected, d3 would roll them over to the next month.
      */
-    loseFocus() {
-        if (this.preventLoosingFocus) {
-            return;
+    validateValue(value: string) : any {
+        const text = trim(value);
+
+        // Parsers with the formatters of the same format
+        const formats: Array<[(text: string) => Date | null, (date: Date) => string]> = [
+            [d3TimeFormat.utcParse(this.model.get('format')), this.formatter],
+            [d3TimeFormat.isoParse, d3TimeFormat.isoFormat]
+        ];
+        for (const format of DatesInputView.input_formats) {
+            formats.push([d3TimeFormat.utcParse(format), d3TimeFormat.utcFormat(format)]);
         }
 
-        // Only hide the input if we have tags displayed
-        if (this.model.get('value').length) {
-            this.taginputWrapper.style.display = 'none';
+        for (const [parser, formatter] of formats) {
+            const date: Date | null = parser(text);
+            if (date == null || isNaN(date.getTime()) || !readsAsWritten(text, formatter(date))) {
+                continue;
+            }
+
+            if (date.getUTCHours() || date.getUTCMinutes() || date.getUTCSeconds() || date.getUTCMilliseconds()) {
+                throw value + ' should be a date, without a time';
+            }
+
+            return this.checkDate(date, value);
         }
 
-        this.selection = null;
-        this.updateTags();
+        throw value + ' is not a valid date';
     }
 
     /**
-     * The default tag name.
-     *
-     * #### Notes
-     * This is a read-only attribute.
+     * Dates are sorted by their ISO strings, not by their displayed text
      */
-    get tagName() {
-        // We can't make this an attribute with a default value
-        // since it would be set after it is needed in the
-        // constructor.
-        return 'div';
+    getSortKey(value: any) : any {
+        return String(value);
     }
 
     /**
-     * Validate an input tag typed by the user, returning the correct tag type. This should be overridden in subclasses.
+     * Check that a `date` is in the [min, max] range, `value` being its original text
      */
-    validateValue(value: string) : any {
-        return value;
-    }
+    checkDate(date: Date, value: string) : string {
+        const min: string | null = this.model.get('min');
+        const max: string | null = this.model.get('max');
+
+        // ISO dates can be compared as strings
+        const isoDate: string = DatesInputView.iso_formatter(date);
+        if ((min != null && isoDate < min) || (max != null && isoDate > max)) {
+            throw value + ' is not a valid date, it should be in the range [' + min + ', ' + max + ']';
+        }
 
-    abstract createTag(value: any, index: number, selected: boolean) : HTMLElement;
-    abstract updateTag(tag: HTMLElement, value: any, index: number, selected: boolean) : void;
+        return isoDate;
+    }
 
-    el: HTMLDivElement;
-    taginputWrapper: HTMLDivElement;
-    taginput: HTMLInputElement;
-    autocompleteList: HTMLDataListElement;
-    tags: HTMLElement[];
-    hoveredTag: HTMLElement | null = null;
-    hoveredTagIndex: number | null = null;
-    datalistID: string;
-    inputIndex: number;
-    selection: null | Selection
-    preventLoosingFocus: boolean;
+    formatter: (value: Date) => string;
+    model: DatesInputModel;
 
-    model: TagsInputBaseModel;
+    static iso_parser: (value: string) => Date | null = d3TimeFormat.utcParse('%Y-%m-%d');
+    static iso_formatter: (value: Date) => string = d3TimeFormat.utcFormat('%Y-%m-%d');
+    static input_formats = ['%d/%m/%Y', '%d.%m.%Y', '%B %d, %Y', '%b %d, %Y', '%d %B %Y', '%d %b %Y', '%Y/%m/%d'];
 }
 
 export
-class TagsInputModel extends TagsInputBaseModel {
+class KeyValueTagsInputModel extends TagsInputBaseModel {
     defaults() {
         return _.extend(super.defaults(), {
             value: [],
-            tag_style: '',
-            _view_name: 'TagsInputView',
-            _model_name: 'TagsInputModel',
+            allowed_keys: [],
+            allowed_values: {},
+            unique_keys: false,
+            key_separator: ':',
+            _view_name: 'KeyValueTagsInputView',
+            _model_name: 'KeyValueTagsInputModel',
         });
     }
 }
 
 export
-class TagsInputView extends TagsInputBaseView {
+class KeyValueTagsInputView extends TagsInputBaseView {
+    render() {
+        this.model.on('change:key_separator', this.refreshTags.bind(this));
+
+        super.render();
+    }
+
     /**
-     * Create the string tag
+     * Create the key:value tag, the key and the value being two distinct segments
      */
-    createTag(value: string, index: number, selected: boolean) : HTMLDivElement {
+    createTag(value: [string, string], index: number, selected: boolean) : HTMLDivElement {
         const tag = document.createElement('div');
-        const style: string = this.model.get('tag_style');
 
         tag.classList.add('jupyter-widget-tag');
-        tag.classList.add(TagsInputView.class_map[style]);
+        tag.classList.add('jupyter-widget-keyvaluetag');
 
         if (selected) {
             tag.classList.add('mod-active');
         }
 
-        tag.appendChild(document.createTextNode(this.getTagText(value)));
+        const key = document.createElement('span');
+        key.classList.add('jupyter-widget-keyvaluetag-key');
+        key.textContent = value[0];
+        tag.appendChild(key);
 
-        const i = document.createElement('i');
-        i.classList.add('fa');
-        i.classList.add('fa-times');
-        i.classList.add('jupyter-widget-tag-close');
-        tag.appendChild(i);
+        const tagValue = document.createElement('span');
+        tagValue.classList.add('jupyter-widget-keyvaluetag-value');
+        tagValue.textContent = value[1];
+        tag.appendChild(tagValue);
 
-        i.onmousedown = ((index: number) => {
-            return () => {
-                this.removeTag(index);
-                this.loseFocus();
-            };
-        })(index);
+        tag.appendChild(this.createRemoveButton(value));
 
         return tag;
     }
 
-    /**
-     * Returns the text that should be displayed in the tag element
-     */
-    getTagText(value: string) {
-        return value;
-    }
-
     /**
      * Update a given tag
      */
@@ -637,183 +3939,152 @@ class TagsInputView extends TagsInputBaseView {
         }
     }
 
-    model: TagsInputModel;
-
-    static class_map: Dict<string> = {
-        primary: 'mod-primary',
-        success: 'mod-success',
-        info: 'mod-info',
-        warning: 'mod-warning',
-        danger: 'mod-danger'
-    };
-}
+    /**
+     * Returns the text of a tag, written as key:value
+     */
+    getTagText(value: [string, string]) : string {
+        return value[0] + this.model.get('key_separator') + value[1];
+    }
 
-export
-class ColorsInputModel extends TagsInputBaseModel {
-    defaults() {
-        return _.extend(super.defaults(), {
-            value: [],
-            _view_name: 'ColorsInputView',
-            _model_name: 'ColorsInputModel',
-        });
+    /**
+     * Returns the text of a tag being edited
+     */
+    getEditText(value: [string, string]) : string {
+        return this.getTagText(value);
     }
-}
 
-export
-class ColorsInputView extends TagsInputBaseView {
     /**
-     * Create the Color tag
+     * Tags are sorted by key, then by value
      */
-    createTag(value: string, index: number, selected: boolean) : HTMLDivElement {
-        const tag = document.createElement('div');
-        const color = value;
-        const darkerColor: string = d3Color.color(value).darker().toString();
+    getSortKey(value: [string, string]) : any {
+        return value[0] + this.model.get('key_separator') + value[1];
+    }
 
-        tag.classList.add('jupyter-widget-tag');
-        tag.classList.add('jupyter-widget-colortag');
+    /**
+     * Validate an input tag typed by the user as key:value, returning the [key, value] pair
+     */
+    validateValue(value: string) : any {
+        const separator: string = this.model.get('key_separator');
 
-        if (!selected) {
-            tag.style.backgroundColor = color;
-        } else {
-            tag.classList.add('mod-active');
-            tag.style.backgroundColor = darkerColor;
+        const separatorIndex = value.indexOf(separator);
+        if (separatorIndex == -1) {
+            throw value + ' should be written as key' + separator + 'value';
         }
 
-        const i = document.createElement('i');
-        i.classList.add('fa');
-        i.classList.add('fa-times');
-        i.classList.add('jupyter-widget-tag-close');
-        tag.appendChild(i);
-
-        i.onmousedown = ((index: number) => {
-            return () => {
-                this.removeTag(index);
-                this.loseFocus();
-            };
-        })(index);
-
-        return tag;
+        return this.checkPair(trim(value.slice(0, separatorIndex)), trim(value.slice(separatorIndex + separator.length)), value);
     }
 
     /**
-     * Update a given tag
+     * Pairs coming from another tags widget are checked as they are, without parsing them again
      */
-    updateTag(tag: HTMLDivElement, value: any, index: number, selected: boolean) : void {
-        const color = value;
-        const darkerColor: string = d3Color.color(value).darker().toString();
-
-        if (!selected) {
-            tag.classList.remove('mod-active');
-            tag.style.backgroundColor = color;
-        } else {
-            tag.classList.add('mod-active');
-            tag.style.backgroundColor = darkerColor;
+    validateTypedValue(value: any) : any {
+        if (!Array.isArray(value) || value.length != 2) {
+            return super.validateTypedValue(value);
         }
+
+        return this.checkPair(String(value[0]), String(value[1]), this.getTagText(value as [string, string]));
     }
 
     /**
-     * Validate an input tag typed by the user, returning the correct tag type. This should be overridden in subclasses.
+     * Check that `key` and `tagValue` are allowed, `value` being the original text of the tag.
+     * Keys and values matching allowed ones are replaced by their canonical spelling
      */
-    validateValue(value: string) : any {
-        if (d3Color.color(value) == null) {
-            throw value + ' is not a valid Color';
+    checkPair(key: string, tagValue: string, value: string) : [string, string] {
+        if (!key.length || !tagValue.length) {
+            throw value + ' should be written as key' + this.model.get('key_separator') + 'value';
         }
 
-        return value;
-    }
-
-    model: ColorsInputModel;
-}
+        const allowedKeys: Array<string> = this.model.get('allowed_keys');
+        if (allowedKeys.length) {
+            const allowedKey = allowedKeys.find((allowedKey: string) => this.valuesMatch(allowedKey, key));
+            if (allowedKey == undefined) {
+                throw key + ' is not an allowed key';
+            }
+            key = allowedKey;
+        }
 
-abstract class NumbersInputModel extends TagsInputModel {
-    defaults() {
-        return _.extend(super.defaults(), {
-            min: null,
-            max: null,
-        });
-    }
-}
+        const valuesKey = this.findAllowedValuesKey(key);
+        if (valuesKey != undefined) {
+            const allowedValue = this.model.get('allowed_values')[valuesKey].find(
+                (allowedValue: string) => this.valuesMatch(allowedValue, tagValue)
+            );
+            if (allowedValue == undefined) {
+                throw tagValue + ' is not an allowed value for ' + key;
+            }
+            tagValue = allowedValue;
 
-abstract class NumbersInputView extends TagsInputView {
-    render() {
-        // Initialize text formatter
-        this.model.on('change:format', () => {
-          this.formatter = d3Format.format(this.model.get('format'));
-          this.update();
-        });
-        this.formatter = d3Format.format(this.model.get('format'));
+            if (!allowedKeys.length) {
+                key = valuesKey;
+            }
+        }
 
-        super.render();
+        return [key, tagValue];
     }
 
     /**
-     * Returns the text that should be displayed in the tag element
+     * Returns the key of `allowed_values` matching `key`, undefined if there is none
      */
-    getTagText(value: string) {
-        return this.formatter(this.parseNumber(value));
+    findAllowedValuesKey(key: string) : string | undefined {
+        return Object.keys(this.model.get('allowed_values')).find((allowedKey: string) => this.valuesMatch(allowedKey, key));
     }
 
     /**
-     * Validate an input tag typed by the user, returning the correct tag type. This should be overridden in subclasses.
+     * A tag conflicts with a tag having the same key if keys are unique
      */
-    validateValue(value: string) : any {
-        const parsed = this.parseNumber(value);
-        const min: number | null = this.model.get('min');
-        const max: number | null = this.model.get('max');
-
-        if (isNaN(parsed) || (min != null && parsed < min) || (max != null && parsed > max)) {
-            throw value + ' is not a valid number, it should be in the range [' + min + ', ' + max + ']';
+    findConflict(tagValue: any, value: Array<any>) : number {
+        if (this.model.get('unique_keys')) {
+            const index = value.findIndex((otherValue: [string, string]) => this.valuesMatch(otherValue[0], tagValue[0]));
+            if (index != -1) {
+                return index;
+            }
         }
 
-        return parsed;
-    }
-
-    abstract parseNumber(value: string) : number;
-
-    formatter: (value: number) => string;
-}
-
-export
-class FloatsInputModel extends NumbersInputModel {
-    defaults() {
-        return _.extend(super.defaults(), {
-            _view_name: 'FloatsInputView',
-            _model_name: 'FloatsInputModel',
-            format: '.1f',
-        });
+        return super.findConflict(tagValue, value);
     }
-}
 
-export
-class FloatsInputView extends NumbersInputView {
-    parseNumber(value: string) : number {
-        return parseFloat(value);
-    }
+    /**
+     * Suggest keys until the key separator is typed, then the values allowed for the typed key
+     */
+    getSuggestions() : Array<TagOption> {
+        const separator: string = this.model.get('key_separator');
+        const text = this.taginput.value;
+        const separatorIndex = text.indexOf(separator);
+
+        if (separatorIndex == -1) {
+            const allowedKeys: Array<string> = this.model.get('allowed_keys');
+            const keys = allowedKeys.length ? allowedKeys : Object.keys(this.model.get('allowed_values'));
+
+            // Don't suggest keys which already have a value if keys are unique
+            const usedKeys = new Set<string>(this.model.get('unique_keys') ?
+                this.model.get('value').map((value: [string, string]) => this.getMatchKey(value[0])) : []);
+
+            return keys.filter((key: string) => !usedKeys.has(this.getMatchKey(key))).map((key: string) => {
+                return { value: key, label: key + separator, description: '' };
+            });
+        }
 
-    model: FloatsInputModel;
-}
+        const key = this.findAllowedValuesKey(trim(text.slice(0, separatorIndex)));
+        const values: Array<string> = key == undefined ? [] : this.model.get('allowed_values')[key];
 
-export
-class IntsInputModel extends NumbersInputModel {
-    defaults() {
-        return _.extend(super.defaults(), {
-            _view_name: 'IntsInputView',
-            _model_name: 'IntsInputModel',
-            format: '.3g',
+        return values.map((tagValue: string) => {
+            return { value: [key, tagValue], label: key + separator + tagValue, description: '' };
         });
     }
-}
 
-export
-class IntsInputView extends NumbersInputView {
-    parseNumber(value: string) : number {
-        const int = parseInt(value);
-        if (int != parseFloat(value)) {
-            throw value + ' should be an integer';
+    /**
+     * Accepting a key suggestion completes the key, values of this key are suggested next
+     */
+    completeSuggestion(option: TagOption) : boolean {
+        if (Array.isArray(option.value)) {
+            return false;
         }
 
-        return int;
+        this.taginput.value = option.label;
+        this.resizeInput();
+        this.updateAutocomplete();
+
+        return true;
     }
 
-    model: IntsInputModel;
+    model: KeyValueTagsInputModel;
 }
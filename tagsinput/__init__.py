@@ -4,7 +4,7 @@
 # Copyright (c) QuantStack.
 # Distributed under the terms of the Modified BSD License.
 
-from .tagsinput import TagsInput, ColorsInput, FloatsInput, IntsInput  # noqa
+from .tagsinput import TagsInput, ColorsInput, FloatsInput, IntsInput, DatesInput, KeyValueTagsInput  # noqa
 from ._version import __version__, version_info  # noqa
 
 from .nbextension import _jupyter_nbextension_paths  # noqa
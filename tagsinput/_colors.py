@@ -0,0 +1,249 @@
+#!/usr/bin/env python
+# coding: utf-8
+
+# Copyright (c) QuantStack.
+# Distributed under the terms of the Modified BSD License.
+
+"""Color parsing and formatting.
+
+Port of the parts of d3-color used by the view, so that colors are formatted and sorted the same way in the kernel
+and in the view.
+"""
+
+import math
+import re
+from collections import namedtuple
+
+
+Rgb = namedtuple('Rgb', ['r', 'g', 'b', 'opacity'])
+Hsl = namedtuple('Hsl', ['h', 's', 'l', 'opacity'])
+
+_nan = float('nan')
+
+_re_i = r'\s*([+-]?[0-9]+)\s*'
+_re_n = r'\s*([+-]?[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?)\s*'
+_re_p = r'\s*([+-]?[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?)%\s*'
+
+_re_hex = re.compile(r'^#([0-9a-f]{3,8})$')
+_re_rgb_integer = re.compile(r'^rgb\(' + ','.join([_re_i, _re_i, _re_i]) + r'\)$')
+_re_rgb_percent = re.compile(r'^rgb\(' + ','.join([_re_p, _re_p, _re_p]) + r'\)$')
+_re_rgba_integer = re.compile(r'^rgba\(' + ','.join([_re_i, _re_i, _re_i, _re_n]) + r'\)$')
+_re_rgba_percent = re.compile(r'^rgba\(' + ','.join([_re_p, _re_p, _re_p, _re_n]) + r'\)$')
+_re_hsl_percent = re.compile(r'^hsl\(' + ','.join([_re_n, _re_p, _re_p]) + r'\)$')
+_re_hsla_percent = re.compile(r'^hsla\(' + ','.join([_re_n, _re_p, _re_p, _re_n]) + r'\)$')
+
+_named = {
+    'aliceblue': 0xf0f8ff, 'antiquewhite': 0xfaebd7, 'aqua': 0x00ffff, 'aquamarine': 0x7fffd4, 'azure': 0xf0ffff,
+    'beige': 0xf5f5dc, 'bisque': 0xffe4c4, 'black': 0x000000, 'blanchedalmond': 0xffebcd, 'blue': 0x0000ff,
+    'blueviolet': 0x8a2be2, 'brown': 0xa52a2a, 'burlywood': 0xdeb887, 'cadetblue': 0x5f9ea0, 'chartreuse': 0x7fff00,
+    'chocolate': 0xd2691e, 'coral': 0xff7f50, 'cornflowerblue': 0x6495ed, 'cornsilk': 0xfff8dc, 'crimson': 0xdc143c,
+    'cyan': 0x00ffff, 'darkblue': 0x00008b, 'darkcyan': 0x008b8b, 'darkgoldenrod': 0xb8860b, 'darkgray': 0xa9a9a9,
+    'darkgreen': 0x006400, 'darkgrey': 0xa9a9a9, 'darkkhaki': 0xbdb76b, 'darkmagenta': 0x8b008b,
+    'darkolivegreen': 0x556b2f, 'darkorange': 0xff8c00, 'darkorchid': 0x9932cc, 'darkred': 0x8b0000,
+    'darksalmon': 0xe9967a, 'darkseagreen': 0x8fbc8f, 'darkslateblue': 0x483d8b, 'darkslategray': 0x2f4f4f,
+    'darkslategrey': 0x2f4f4f, 'darkturquoise': 0x00ced1, 'darkviolet': 0x9400d3, 'deeppink': 0xff1493,
+    'deepskyblue': 0x00bfff, 'dimgray': 0x696969, 'dimgrey': 0x696969, 'dodgerblue': 0x1e90ff, 'firebrick': 0xb22222,
+    'floralwhite': 0xfffaf0, 'forestgreen': 0x228b22, 'fuchsia': 0xff00ff, 'gainsboro': 0xdcdcdc,
+    'ghostwhite': 0xf8f8ff, 'gold': 0xffd700, 'goldenrod': 0xdaa520, 'gray': 0x808080, 'green': 0x008000,
+    'greenyellow': 0xadff2f, 'grey': 0x808080, 'honeydew': 0xf0fff0, 'hotpink': 0xff69b4, 'indianred': 0xcd5c5c,
+    'indigo': 0x4b0082, 'ivory': 0xfffff0, 'khaki': 0xf0e68c, 'lavender': 0xe6e6fa, 'lavenderblush': 0xfff0f5,
+    'lawngreen': 0x7cfc00, 'lemonchiffon': 0xfffacd, 'lightblue': 0xadd8e6, 'lightcoral': 0xf08080,
+    'lightcyan': 0xe0ffff, 'lightgoldenrodyellow': 0xfafad2, 'lightgray': 0xd3d3d3, 'lightgreen': 0x90ee90,
+    'lightgrey': 0xd3d3d3, 'lightpink': 0xffb6c1, 'lightsalmon': 0xffa07a, 'lightseagreen': 0x20b2aa,
+    'lightskyblue': 0x87cefa, 'lightslategray': 0x778899, 'lightslategrey': 0x778899, 'lightsteelblue': 0xb0c4de,
+    'lightyellow': 0xffffe0, 'lime': 0x00ff00, 'limegreen': 0x32cd32, 'linen': 0xfaf0e6, 'magenta': 0xff00ff,
+    'maroon': 0x800000, 'mediumaquamarine': 0x66cdaa, 'mediumblue': 0x0000cd, 'mediumorchid': 0xba55d3,
+    'mediumpurple': 0x9370db, 'mediumseagreen': 0x3cb371, 'mediumslateblue': 0x7b68ee, 'mediumspringgreen': 0x00fa9a,
+    'mediumturquoise': 0x48d1cc, 'mediumvioletred': 0xc71585, 'midnightblue': 0x191970, 'mintcream': 0xf5fffa,
+    'mistyrose': 0xffe4e1, 'moccasin': 0xffe4b5, 'navajowhite': 0xffdead, 'navy': 0x000080, 'oldlace': 0xfdf5e6,
+    'olive': 0x808000, 'olivedrab': 0x6b8e23, 'orange': 0xffa500, 'orangered': 0xff4500, 'orchid': 0xda70d6,
+    'palegoldenrod': 0xeee8aa, 'palegreen': 0x98fb98, 'paleturquoise': 0xafeeee, 'palevioletred': 0xdb7093,
+    'papayawhip': 0xffefd5, 'peachpuff': 0xffdab9, 'peru': 0xcd853f, 'pink': 0xffc0cb, 'plum': 0xdda0dd,
+    'powderblue': 0xb0e0e6, 'purple': 0x800080, 'rebeccapurple': 0x663399, 'red': 0xff0000, 'rosybrown': 0xbc8f8f,
+    'royalblue': 0x4169e1, 'saddlebrown': 0x8b4513, 'salmon': 0xfa8072, 'sandybrown': 0xf4a460, 'seagreen': 0x2e8b57,
+    'seashell': 0xfff5ee, 'sienna': 0xa0522d, 'silver': 0xc0c0c0, 'skyblue': 0x87ceeb, 'slateblue': 0x6a5acd,
+    'slategray': 0x708090, 'slategrey': 0x708090, 'snow': 0xfffafa, 'springgreen': 0x00ff7f, 'steelblue': 0x4682b4,
+    'tan': 0xd2b48c, 'teal': 0x008080, 'thistle': 0xd8bfd8, 'tomato': 0xff6347, 'turquoise': 0x40e0d0,
+    'violet': 0xee82ee, 'wheat': 0xf5deb3, 'white': 0xffffff, 'whitesmoke': 0xf5f5f5, 'yellow': 0xffff00,
+    'yellowgreen': 0x9acd32
+}
+
+
+def parse_color(text):
+    """Parse a CSS color, returning an Rgb or an Hsl color depending on how it is written, None if it is invalid."""
+    text = str(text).strip().lower()
+
+    match = _re_hex.match(text)
+    if match is not None:
+        digits = match.group(1)
+        if len(digits) == 6:
+            return _rgbn(int(digits, 16))
+        if len(digits) in (3, 4):
+            channels = [int(digit * 2, 16) for digit in digits]
+            return Rgb(channels[0], channels[1], channels[2], channels[3] / 0xff if len(digits) == 4 else 1)
+        if len(digits) == 8:
+            channels = [int(digits[i:i + 2], 16) for i in (0, 2, 4, 6)]
+            return Rgb(channels[0], channels[1], channels[2], channels[3] / 0xff)
+        return None
+
+    match = _re_rgb_integer.match(text)
+    if match is not None:
+        return Rgb(*(float(channel) for channel in match.groups()), 1)
+    match = _re_rgb_percent.match(text)
+    if match is not None:
+        return Rgb(*(float(channel) * 255 / 100 for channel in match.groups()), 1)
+    match = _re_rgba_integer.match(text)
+    if match is not None:
+        return _rgba(*(float(channel) for channel in match.groups()))
+    match = _re_rgba_percent.match(text)
+    if match is not None:
+        return _rgba(*(float(channel) * 255 / 100 for channel in match.groups()[:3]), float(match.group(4)))
+    match = _re_hsl_percent.match(text)
+    if match is not None:
+        return _hsla(float(match.group(1)), float(match.group(2)) / 100, float(match.group(3)) / 100, 1)
+    match = _re_hsla_percent.match(text)
+    if match is not None:
+        return _hsla(float(match.group(1)), float(match.group(2)) / 100, float(match.group(3)) / 100, float(match.group(4)))
+
+    if text in _named:
+        return _rgbn(_named[text])
+    if text == 'transparent':
+        return Rgb(_nan, _nan, _nan, 0)
+    return None
+
+
+def _rgbn(n):
+    return Rgb(n >> 16 & 0xff, n >> 8 & 0xff, n & 0xff, 1)
+
+
+def _rgba(r, g, b, a):
+    if a <= 0:
+        r = g = b = _nan
+    return Rgb(r, g, b, a)
+
+
+def _hsla(h, s, l, a):
+    if a <= 0:
+        h = s = l = _nan
+    elif l <= 0 or l >= 1:
+        h = s = _nan
+    elif s <= 0:
+        h = _nan
+    return Hsl(h, s, l, a)
+
+
+def to_rgb(color):
+    """Convert a color to Rgb."""
+    if isinstance(color, Rgb):
+        return color
+
+    h = math.fmod(color.h, 360) + (color.h < 0) * 360 if math.isfinite(color.h) else _nan
+    s = 0 if math.isnan(h) or math.isnan(color.s) else color.s
+    l = color.l
+    m2 = l + (l if l < 0.5 else 1 - l) * s
+    m1 = 2 * l - m2
+    return Rgb(
+        _hsl2rgb(h - 240 if h >= 240 else h + 120, m1, m2),
+        _hsl2rgb(h, m1, m2),
+        _hsl2rgb(h + 240 if h < 120 else h - 120, m1, m2),
+        color.opacity
+    )
+
+
+def _hsl2rgb(h, m1, m2):
+    if h < 60:
+        return (m1 + (m2 - m1) * h / 60) * 255
+    if h < 180:
+        return m2 * 255
+    if h < 240:
+        return (m1 + (m2 - m1) * (240 - h) / 60) * 255
+    return m1 * 255
+
+
+def to_hsl(color):
+    """Convert a color to Hsl, the hue of grays and the saturation of black and white being NaN."""
+    if isinstance(color, Hsl):
+        return color
+
+    r, g, b = color.r / 255, color.g / 255, color.b / 255
+    if math.isnan(r) or math.isnan(g) or math.isnan(b):
+        return Hsl(_nan, _nan, _nan, color.opacity)
+
+    low = min(r, g, b)
+    high = max(r, g, b)
+    h = _nan
+    s = high - low
+    l = (high + low) / 2
+    if s:
+        if r == high:
+            h = (g - b) / s + (g < b) * 6
+        elif g == high:
+            h = (b - r) / s + 2
+        else:
+            h = (r - g) / s + 4
+        s /= high + low if l < 0.5 else 2 - high - low
+        h *= 60
+    else:
+        s = 0 if 0 < l < 1 else h
+    return Hsl(h, s, l, color.opacity)
+
+
+def format_hex(color):
+    """Format a color as #rrggbb, ignoring its opacity."""
+    color = to_rgb(color)
+    return '#' + ''.join('{:02x}'.format(_channel(value)) for value in (color.r, color.g, color.b))
+
+
+def format_rgb(color):
+    """Format a color as rgb(r, g, b), or rgba(r, g, b, a) if it is not opaque."""
+    color = to_rgb(color)
+    opacity = _opacity(color)
+    channels = ', '.join(str(_channel(value)) for value in (color.r, color.g, color.b))
+    return 'rgb({})'.format(channels) if opacity == 1 else 'rgba({}, {})'.format(channels, _format_number(opacity))
+
+
+def format_hsl(color):
+    """Format a color as hsl(h, s%, l%), or hsla(h, s%, l%, a) if it is not opaque."""
+    color = to_hsl(color)
+    opacity = _opacity(color)
+    channels = '{}, {}%, {}%'.format(
+        _format_number(_or_zero(color.h)), _format_number(_or_zero(color.s) * 100), _format_number(_or_zero(color.l) * 100))
+    return 'hsl({})'.format(channels) if opacity == 1 else 'hsla({}, {})'.format(channels, _format_number(opacity))
+
+
+def _opacity(color):
+    return 1 if math.isnan(color.opacity) else max(0, min(1, color.opacity))
+
+
+def _channel(value):
+    return 0 if math.isnan(value) else max(0, min(255, _round(value)))
+
+
+def _or_zero(value):
+    return 0 if math.isnan(value) else value
+
+
+def _round(value):
+    """Round half up like JavaScript, Python rounding half to even."""
+    integer = math.floor(value)
+    return integer + 1 if value - integer >= 0.5 else integer
+
+
+def _format_number(number):
+    """Format a number like JavaScript, e.g. 50 rather than 50.0 and 1e-7 rather than 1e-07."""
+    if math.isinf(number):
+        return 'Infinity' if number > 0 else '-Infinity'
+    if number == int(number) and abs(number) < 1e21:
+        return str(int(number))
+
+    text = repr(number)
+    if 'e' not in text:
+        return text
+
+    mantissa, exponent = text.split('e')
+    exponent = int(exponent)
+    if exponent < -6 or exponent >= 21:
+        return '{}e{}{}'.format(mantissa, '+' if exponent > 0 else '-', abs(exponent))
+
+    sign = '-' if mantissa.startswith('-') else ''
+    return sign + '0.' + '0' * (-exponent - 1) + mantissa.lstrip('-').replace('.', '')
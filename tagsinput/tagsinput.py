@@ -9,15 +9,147 @@
 Represents a list of tags.
 """
 
+import datetime
+import math
+import re
+import unicodedata
+
 from traitlets import (
-    Bool, CaselessStrEnum, CFloat, CInt, List, TraitError, Unicode, validate
+    Any, Bool, CaselessStrEnum, CFloat, CInt, Dict, Instance, Int, List, TraitError, Tuple, Unicode, observe, validate
 )
 
 from ipywidgets import Color, DOMWidget, NumberFormat
 
+from ._colors import format_hex, format_hsl, format_rgb, parse_color, to_hsl
 from ._frontend import module_name, module_version
 
 
+def date_to_json(value, widget):
+    """Serialize a date as an ISO string."""
+    if value is None:
+        return None
+    return value.isoformat()
+
+
+def date_from_json(value, widget):
+    """Deserialize an ISO string as a date."""
+    if value is None:
+        return None
+    return datetime.datetime.strptime(value, '%Y-%m-%d').date()
+
+
+def dates_to_json(value, widget):
+    return [date_to_json(date, widget) for date in value]
+
+
+def dates_from_json(value, widget):
+    return [date_from_json(date, widget) for date in value]
+
+
+date_serialization = {'to_json': date_to_json, 'from_json': date_from_json}
+dates_serialization = {'to_json': dates_to_json, 'from_json': dates_from_json}
+
+
+_number_pattern = r'[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?'
+_range_re = re.compile(r'^\s*({0})\s*(?:-|\.\.|:)\s*({0})\s*$'.format(_number_pattern))
+_step_range_re = re.compile(r'^\s*({0})\s*:\s*({0})\s*:\s*({0})\s*$'.format(_number_pattern))
+
+
+def expand_range(text, max_expansion=None):
+    """Expand a range of numbers written as 'start-stop', 'start..stop' or 'start:stop:step' into a list of numbers,
+    the stop being included. Return None if `text` is not a range."""
+    match = _range_re.match(text)
+    if match is not None:
+        start, stop = float(match.group(1)), float(match.group(2))
+        step = 1 if start <= stop else -1
+    else:
+        match = _step_range_re.match(text)
+        if match is None:
+            return None
+        start, stop, step = float(match.group(1)), float(match.group(2)), float(match.group(3))
+
+    if step == 0 or (stop - start) * step < 0:
+        raise TraitError('{} is not a valid range'.format(text))
+
+    # Tolerate rounding errors on the last number, e.g. with a step of 0.1
+    count = int(math.floor((stop - start) / step + 1e-9)) + 1
+    if max_expansion is not None and count > max_expansion:
+        raise TraitError('{} expands to {} tags, at most {} are allowed'.format(text, count, max_expansion))
+
+    return [float('{:.12g}'.format(start + i * step)) for i in range(count)]
+
+
+class NumbersList(List):
+    """A list of numbers, which can also be given as a string of comma separated numbers and ranges, e.g. '1-5, 10'."""
+
+    def set(self, obj, value):
+        # Strings are expanded before being set, List wraps them in a list otherwise
+        if isinstance(value, str):
+            numbers = []
+            for piece in value.split(','):
+                if not piece.strip():
+                    continue
+                expanded = expand_range(piece, getattr(obj, 'max_expansion', None))
+                if expanded is None:
+                    numbers.append(piece.strip())
+                    continue
+                # Ranges of integers should not be truncated, e.g. '0:2:0.5'
+                if isinstance(self._trait, Int) and not all(number.is_integer() for number in expanded):
+                    raise TraitError('{} expands to numbers which are not integers'.format(piece.strip()))
+                numbers.extend(expanded)
+            value = numbers
+
+        super(NumbersList, self).set(obj, value)
+
+
+class Date(Instance):
+    """A date. Datetimes are rejected instead of being truncated, the view only handles dates."""
+
+    def __init__(self, **kwargs):
+        super(Date, self).__init__(datetime.date, **kwargs)
+
+    def validate(self, obj, value):
+        if isinstance(value, datetime.datetime):
+            raise TraitError('{!r} is a datetime, dates are expected'.format(value))
+
+        return super(Date, self).validate(obj, value)
+
+
+def _tree_children(node):
+    """Returns the children of a tag tree node by name, a node being a dict, a list of leaf names or a leaf."""
+    if isinstance(node, (list, tuple)):
+        return {str(name): None for name in node}
+    if isinstance(node, dict):
+        return node
+    return {}
+
+
+def _tag_option(tag):
+    """Returns the value and the label of an `allowed_tags` entry, dicts without a 'value' key being plain values
+    as in the view."""
+    if isinstance(tag, dict) and 'value' in tag:
+        label = tag.get('label')
+        return tag['value'], str(tag['value'] if label is None else label)
+    return tag, str(tag)
+
+
+def _natural_sort_key(text):
+    """Sort key comparing the numbers in a text as numbers and the rest of the text ignoring case, as in the view."""
+    # Splitting around the numbers puts them at odd positions
+    return [(0, int(piece), '') if index % 2 else (1, 0, piece.lower())
+            for index, piece in enumerate(re.split(r'([0-9]+)', text)) if piece]
+
+
+def _color_sort_key(color):
+    """Sort key of a color by hue, then by lightness, grays coming first and invalid colors last, as in the view.
+    Colors are rounded to their hex code first, so that a color sorts the same however it is written."""
+    parsed = parse_color(color)
+    if parsed is None:
+        return (1, 0, 0, _natural_sort_key(color))
+
+    hsl = to_hsl(parse_color(format_hex(parsed)))
+    return (0, -1 if math.isnan(hsl.h) else hsl.h, hsl.l, [])
+
 
 class TagsInputBase(DOMWidget):
     _model_module = Unicode(module_name).tag(sync=True)
@@ -26,22 +158,173 @@ class TagsInputBase(DOMWidget):
     _view_module_version = Unicode(module_version).tag(sync=True)
 
     value = List().tag(sync=True)
-    allowed_tags = List().tag(sync=True)
+    allowed_tags = List(
+        help="""Allowed tag values, either plain values or dicts with a 'value' key and optional 'label' and 'description' keys.""").tag(sync=True)
     allow_duplicates = Bool(True).tag(sync=True)
+    min_tags = CInt(default_value=None, allow_none=True,
+        help="""Minimum number of tags, no minimum if None. The widget may have fewer tags until the user adds
+        them, it is then shown as invalid.""").tag(sync=True)
+    max_tags = CInt(default_value=None, allow_none=True,
+        help="""Maximum number of tags, no maximum if None.""").tag(sync=True)
+    selected_indices = List(CInt(), read_only=True,
+        help="""Indices of the tags currently selected by the user.""").tag(sync=True)
+    max_visible_tags = CInt(default_value=None, allow_none=True,
+        help="""Number of tags shown while the widget is not focused, all of them if None.""").tag(sync=True)
+    max_suggestions = CInt(10, help="""Maximum number of suggestions shown while typing.""").tag(sync=True)
+    separators = List(Unicode(), default_value=[',', '\n'],
+        help="""Strings splitting typed or pasted text into multiple tags.""").tag(sync=True)
+    commit_keys = List(Unicode(), default_value=['Enter'],
+        help="""Keys adding the typed text as a tag, e.g. 'Enter', 'Tab' or ','.""").tag(sync=True)
+    accept_drops = Bool(True,
+        help="""Whether tags and text dragged from other widgets or applications can be dropped in this widget.""").tag(sync=True)
+    drag_group = Unicode('',
+        help="""Tags can only be dragged between widgets of the same drag group.""").tag(sync=True)
+    sort = CaselessStrEnum(
+        values=['none', 'asc', 'desc'], default_value='none',
+        help="""Keep the tags sorted in ascending or descending order, tags keep their order if 'none'.""").tag(sync=True)
+    case_sensitive = Bool(True,
+        help="""Whether tags differing only by case are different, e.g. for duplicates and allowed tags.""").tag(sync=True)
+    normalize = List(
+        CaselessStrEnum(values=['lowercase', 'uppercase', 'nfc', 'nfd', 'nfkc', 'nfkd', 'collapse_whitespace']),
+        help="""Normalization steps applied in order to the text of the tags.""").tag(sync=True)
+    error = Unicode('', read_only=True,
+        help="""Why the last tag typed by the user was rejected, empty if it was accepted.""").tag(sync=True)
+    suggestion_handler = Any(None, allow_none=True,
+        help="""Callable taking the text typed by the user and returning a list of suggested tags.""")
+    _query_suggestions = Bool(False).tag(sync=True)
+
+    # Whether the value is being validated again after an option changed, rather than assigned
+    _revalidating = False
+
+    def __init__(self, **kwargs):
+        super(TagsInputBase, self).__init__(**kwargs)
+        self.on_msg(self._handle_frontend_msg)
+
+    @observe('sort')
+    def _observe_sort(self, change):
+        self._revalidate_value()
+
+    @observe('suggestion_handler')
+    def _observe_suggestion_handler(self, change):
+        self._query_suggestions = change['new'] is not None
+
+    def _handle_frontend_msg(self, _, content, buffers):
+        if content.get('event') != 'query' or self.suggestion_handler is None:
+            return
+
+        # The view waits for an answer, send no suggestions if the handler fails
+        try:
+            suggestions = list(self.suggestion_handler(content['query']))
+        except Exception:
+            self.log.exception('Suggestion handler failed for the query %r', content['query'])
+            suggestions = []
+
+        self.send({
+            'event': 'suggestions',
+            'id': content['id'],
+            'query': content['query'],
+            'suggestions': suggestions
+        })
+
+    def _revalidate_value(self):
+        """Validate the current value again, e.g. to sort it. Its number of tags is not checked, as it may
+        be below `min_tags` until the user adds tags."""
+        self._revalidating = True
+        try:
+            self.value = list(self.value)
+        finally:
+            self._revalidating = False
+
+    @validate('max_tags')
+    def _validate_tag_count(self, proposal):
+        # The current value should still have an allowed number of tags. A value with too few tags is not an
+        # error, the view asks the user for more.
+        if proposal['value'] is not None and len(self.value) > proposal['value']:
+            raise TraitError('The value should contain at most {} tags'.format(proposal['value']))
+
+        return proposal['value']
 
     @validate('value')
     def _validate_value(self, proposal):
-        if ('' in proposal['value']):
+        value = [self._normalize_value(tag_value) for tag_value in proposal['value']]
+
+        if ('' in value):
             raise TraitError('The value of a TagsInput widget cannot contain blank strings')
 
-        if len(self.allowed_tags) == 0:
-            return proposal['value']
+        if self.min_tags is not None and len(value) < self.min_tags and not self._revalidating:
+            raise TraitError('The value should contain at least {} tags'.format(self.min_tags))
+        if self.max_tags is not None and len(value) > self.max_tags:
+            raise TraitError('The value should contain at most {} tags'.format(self.max_tags))
 
-        for tag_value in proposal['value']:
-            if tag_value not in self.allowed_tags:
-                raise TraitError('Tag value {} is not allowed, allowed tags are {}'.format(tag_value, self.allowed_tags))
+        if len(self.allowed_tags) != 0:
+            allowed_values = [_tag_option(tag)[0] for tag in self.allowed_tags]
+            allowed_keys = [self._match_key(allowed_value) for allowed_value in allowed_values]
 
-        return proposal['value']
+            # Values matching an allowed tag are replaced by its canonical spelling
+            for index, tag_value in enumerate(value):
+                key = self._match_key(tag_value)
+                if key not in allowed_keys:
+                    raise TraitError('Tag value {} is not allowed, allowed tags are {}'.format(tag_value, allowed_values))
+                value[index] = allowed_values[allowed_keys.index(key)]
+
+        if not self.allow_duplicates:
+            keys = []
+            for tag_value in value:
+                key = self._match_key(tag_value)
+                if key in keys:
+                    raise TraitError('Tag value {} is duplicated'.format(tag_value))
+                keys.append(key)
+
+        return self._sort_value(value)
+
+    def _normalize_value(self, tag_value):
+        """Returns a tag value as it is stored, the text of string tags and of the items of pairs being normalized."""
+        if isinstance(tag_value, (list, tuple)):
+            return type(tag_value)(self._normalize_value(item) for item in tag_value)
+
+        return self._normalize_text(tag_value) if isinstance(tag_value, str) else tag_value
+
+    def _normalize_text(self, text):
+        """Apply the `normalize` steps to the text of a tag."""
+        for step in self.normalize:
+            if step == 'lowercase':
+                text = text.lower()
+            elif step == 'uppercase':
+                text = text.upper()
+            elif step == 'collapse_whitespace':
+                text = ' '.join(text.split())
+            else:
+                text = unicodedata.normalize(step.upper(), text)
+        return text
+
+    def _match_key(self, tag_value):
+        """Returns what a tag value is compared by, normalized and ignoring case unless `case_sensitive` is set.
+        Pairs are compared item by item."""
+        if isinstance(tag_value, (list, tuple)):
+            return tuple(self._match_key(item) for item in tag_value)
+
+        if not isinstance(tag_value, str):
+            return tag_value
+
+        text = self._normalize_text(tag_value)
+        return text if self.case_sensitive else text.lower()
+
+    def _sort_value(self, value):
+        """Returns `value` sorted following the `sort` order, equal tags keeping their order."""
+        if self.sort == 'none':
+            return value
+
+        labels = {str(tag_value): label for tag_value, label in map(_tag_option, self.allowed_tags)}
+        return sorted(value, key=lambda tag_value: self._sort_key(tag_value, labels), reverse=self.sort == 'desc')
+
+    def _sort_key(self, tag_value, labels):
+        """Returns what a tag value is sorted by: numbers are sorted as numbers, other values by their labels.
+        `labels` maps the allowed tag values, as strings, to their labels."""
+        if isinstance(tag_value, (int, float)):
+            return tag_value
+
+        text = str(tag_value)
+        return _natural_sort_key(labels.get(text, text))
 
 
 class TagsInput(TagsInputBase):
@@ -55,6 +338,41 @@ class TagsInput(TagsInputBase):
     tag_style = CaselessStrEnum(
         values=['primary', 'success', 'info', 'warning', 'danger', ''], default_value='',
         help="""Use a predefined styling for the tags.""").tag(sync=True)
+    tag_styles = Dict(
+        help="""Styles of the tags depending on their value, mapping tag values or regular expressions
+        written as '/pattern/' to a predefined styling or a CSS color.""").tag(sync=True)
+    tag_tree = Dict(default_value=None, allow_none=True,
+        help="""Nested vocabulary of hierarchical tags, each tag being a path in this tree, e.g. 'science/physics'.
+        Nodes are dicts mapping names to their children, or lists of leaf names.""").tag(sync=True)
+    path_separator = Unicode('/',
+        help="""String separating the names of a hierarchical tag path.""").tag(sync=True)
+    parent_mode = CaselessStrEnum(
+        values=['independent', 'implies', 'conflicts'], default_value='independent',
+        help="""Whether a hierarchical tag is independent of its ancestors, is implied by them, or conflicts with them.""").tag(sync=True)
+
+    @validate('value')
+    def _validate_value(self, proposal):
+        value = super(TagsInput, self)._validate_value(proposal)
+
+        if self.tag_tree is None:
+            return value
+
+        for tag_value in value:
+            node = self.tag_tree
+            for name in tag_value.split(self.path_separator):
+                children = _tree_children(node)
+                if name not in children:
+                    raise TraitError('Tag value {} is not in the tag tree'.format(tag_value))
+                node = children[name]
+
+        if self.parent_mode != 'independent':
+            for tag_value in value:
+                for other_value in value:
+                    if other_value.startswith(tag_value + self.path_separator):
+                        raise TraitError('Tag value {} {} {}'.format(
+                            other_value, 'is implied by' if self.parent_mode == 'implies' else 'conflicts with', tag_value))
+
+        return value
 
 
 class ColorsInput(TagsInputBase):
@@ -65,21 +383,49 @@ class ColorsInput(TagsInputBase):
     _view_name = Unicode('ColorsInputView').tag(sync=True)
 
     value = List(Color(), help='List of color tags').tag(sync=True)
+    label_format = CaselessStrEnum(
+        values=['none', 'name', 'hex'], default_value='none',
+        help="""Text displayed on the color swatches: nothing, the color as written or its hex code.""").tag(sync=True)
+    output_format = CaselessStrEnum(
+        values=['hex', 'rgb', 'hsl', ''], default_value='',
+        help="""Format the colors are converted to, colors are kept as written if empty.""").tag(sync=True)
+
+    @observe('output_format')
+    def _observe_output_format(self, change):
+        self._revalidate_value()
+
+    def _normalize_value(self, tag_value):
+        tag_value = super(ColorsInput, self)._normalize_value(tag_value)
+
+        color = parse_color(tag_value) if self.output_format else None
+        if color is None:
+            return tag_value
+
+        return {'hex': format_hex, 'rgb': format_rgb, 'hsl': format_hsl}[self.output_format](color)
+
+    def _sort_key(self, tag_value, labels):
+        return _color_sort_key(tag_value)
 
 
 class NumbersInputBase(TagsInput):
     min = CFloat(default_value=None, allow_none=True).tag(sync=True)
     max = CFloat(default_value=None, allow_none=True).tag(sync=True)
+    max_expansion = CInt(default_value=1000, allow_none=True,
+        help="""Maximum number of tags a range like '1-10' can expand to, no maximum if None.""").tag(sync=True)
+    locale = Unicode('',
+        help="""BCP 47 locale, e.g. 'de-DE', used to parse and format the numbers in the view, en-US if empty.""").tag(sync=True)
 
     @validate('value')
-    def _validate_numbers(self, proposal):
-        for tag_value in proposal['value']:
+    def _validate_value(self, proposal):
+        value = super(NumbersInputBase, self)._validate_value(proposal)
+
+        for tag_value in value:
             if self.min is not None and tag_value < self.min:
                 raise TraitError('Tag value {} should be >= {}'.format(tag_value, self.min))
             if self.max is not None and tag_value > self.max:
                 raise TraitError('Tag value {} should be <= {}'.format(tag_value, self.max))
 
-        return proposal['value']
+        return value
 
 
 class FloatsInput(NumbersInputBase):
@@ -89,7 +435,7 @@ class FloatsInput(NumbersInputBase):
     _model_name = Unicode('FloatsInputModel').tag(sync=True)
     _view_name = Unicode('FloatsInputView').tag(sync=True)
 
-    value = List(CFloat(), help='List of float tags').tag(sync=True)
+    value = NumbersList(CFloat(), help='List of float tags').tag(sync=True)
     format = NumberFormat('.1f').tag(sync=True)
 
 
@@ -100,7 +446,100 @@ class IntsInput(NumbersInputBase):
     _model_name = Unicode('IntsInputModel').tag(sync=True)
     _view_name = Unicode('IntsInputView').tag(sync=True)
 
-    value = List(CInt(), help='List of int tags').tag(sync=True)
+    value = NumbersList(CInt(), help='List of int tags').tag(sync=True)
     format = NumberFormat('.3g').tag(sync=True)
     min = CInt(default_value=None, allow_none=True).tag(sync=True)
     max = CInt(default_value=None, allow_none=True).tag(sync=True)
+
+
+class DatesInput(TagsInput):
+    """
+    List of date tags
+    """
+    _model_name = Unicode('DatesInputModel').tag(sync=True)
+    _view_name = Unicode('DatesInputView').tag(sync=True)
+
+    value = List(Date(), help='List of date tags').tag(sync=True, **dates_serialization)
+    format = Unicode('%Y-%m-%d',
+        help="""d3-time-format specifier used to display the dates. Typed dates are read in this format, in ISO
+        format, or with the day before the month like 25/12/2020, 25.12.2020 or 25 December 2020.""").tag(sync=True)
+    min = Date(allow_none=True).tag(sync=True, **date_serialization)
+    max = Date(allow_none=True).tag(sync=True, **date_serialization)
+
+    @validate('value')
+    def _validate_value(self, proposal):
+        value = super(DatesInput, self)._validate_value(proposal)
+
+        for tag_value in value:
+            if self.min is not None and tag_value < self.min:
+                raise TraitError('Tag value {} should be >= {}'.format(tag_value, self.min))
+            if self.max is not None and tag_value > self.max:
+                raise TraitError('Tag value {} should be <= {}'.format(tag_value, self.max))
+
+        return value
+
+    def _sort_key(self, tag_value, labels):
+        return tag_value
+
+
+class KeyValueTagsInput(TagsInputBase):
+    """
+    List of key:value tags
+    """
+    _model_name = Unicode('KeyValueTagsInputModel').tag(sync=True)
+    _view_name = Unicode('KeyValueTagsInputView').tag(sync=True)
+
+    value = List(Tuple(Unicode(), Unicode()), help='List of (key, value) tags').tag(sync=True)
+    allowed_keys = List(Unicode(),
+        help="""Allowed keys, any key is allowed if empty.""").tag(sync=True)
+    allowed_values = Dict(
+        help="""Allowed values by key, any value is allowed for keys that are not in this mapping.""").tag(sync=True)
+    unique_keys = Bool(False,
+        help="""Whether a key can only have one value.""").tag(sync=True)
+    key_separator = Unicode(':',
+        help="""String separating the key from the value when typing a tag.""").tag(sync=True)
+
+    @validate('value')
+    def _validate_value(self, proposal):
+        value = super(KeyValueTagsInput, self)._validate_value(proposal)
+
+        # Keys and values are matched like tags, the first allowed spelling being kept as in the view
+        allowed_keys = {}
+        for allowed_key in self.allowed_keys:
+            allowed_keys.setdefault(self._match_key(allowed_key), allowed_key)
+        allowed_values = {}
+        for allowed_key, values in self.allowed_values.items():
+            allowed_values.setdefault(self._match_key(allowed_key), (allowed_key, values))
+
+        keys = set()
+        for index, (key, tag_value) in enumerate(value):
+            if not key or not tag_value:
+                raise TraitError('Keys and values of a KeyValueTagsInput widget cannot be blank strings')
+
+            key_match = self._match_key(key)
+            if self.allowed_keys:
+                if key_match not in allowed_keys:
+                    raise TraitError('Key {} is not allowed, allowed keys are {}'.format(key, self.allowed_keys))
+                key = allowed_keys[key_match]
+
+            if key_match in allowed_values:
+                values_key, values = allowed_values[key_match]
+                value_match = self._match_key(tag_value)
+                matches = [allowed_value for allowed_value in values if self._match_key(allowed_value) == value_match]
+                if not matches:
+                    raise TraitError('Value {} is not allowed for key {}, allowed values are {}'.format(
+                        tag_value, key, values))
+                tag_value = matches[0]
+                if not self.allowed_keys:
+                    key = values_key
+
+            if self.unique_keys and key_match in keys:
+                raise TraitError('Key {} can only have one value'.format(key))
+            keys.add(key_match)
+
+            value[index] = (key, tag_value)
+
+        return value
+
+    def _sort_key(self, tag_value, labels):
+        return _natural_sort_key(tag_value[0] + self.key_separator + tag_value[1])
@@ -0,0 +1,315 @@
+#!/usr/bin/env python
+# coding: utf-8
+
+# Copyright (c) QuantStack.
+# Distributed under the terms of the Modified BSD License.
+
+import datetime
+
+import pytest
+
+from traitlets import TraitError
+
+from .._colors import format_hex, format_hsl, format_rgb, parse_color
+from ..tagsinput import (
+    ColorsInput, DatesInput, FloatsInput, IntsInput, KeyValueTagsInput, TagsInput, dates_from_json, dates_to_json,
+    expand_range, _color_sort_key, _natural_sort_key
+)
+
+
+def query_suggestions(widget, query):
+    sent = []
+    widget.send = sent.append
+    widget._handle_frontend_msg(widget, {'event': 'query', 'id': 1, 'query': query}, [])
+    return sent
+
+
+def test_suggestion_handler(mock_comm):
+    w = TagsInput(suggestion_handler=lambda query: [query + 'a', query + 'b'])
+
+    assert w._query_suggestions
+    assert query_suggestions(w, 'x') == [{'event': 'suggestions', 'id': 1, 'query': 'x', 'suggestions': ['xa', 'xb']}]
+
+
+def test_suggestion_handler_error(mock_comm):
+    def handler(query):
+        raise ValueError(query)
+
+    w = TagsInput(suggestion_handler=handler)
+
+    assert query_suggestions(w, 'x') == [{'event': 'suggestions', 'id': 1, 'query': 'x', 'suggestions': []}]
+
+
+def test_tag_count():
+    w = TagsInput(value=['a', 'b'], min_tags=1, max_tags=3)
+
+    with pytest.raises(TraitError):
+        w.value = []
+    with pytest.raises(TraitError):
+        w.value = ['a', 'b', 'c', 'd']
+
+    w.value = ['a', 'b', 'c']
+    assert w.value == ['a', 'b', 'c']
+
+
+def test_tag_count_change():
+    w = TagsInput(value=['a', 'b'])
+
+    with pytest.raises(TraitError):
+        w.max_tags = 1
+    assert w.max_tags is None
+
+    w.min_tags = 2
+    w.max_tags = 2
+    assert (w.min_tags, w.max_tags) == (2, 2)
+
+    # Too few tags are left to the user to add
+    w.max_tags = None
+    w.min_tags = 3
+    assert w.value == ['a', 'b']
+
+
+def test_tag_count_empty():
+    w = TagsInput(min_tags=1, sort='asc')
+    assert w.value == []
+
+    w.value = ['b', 'a']
+    assert w.value == ['a', 'b']
+    with pytest.raises(TraitError):
+        w.value = []
+
+    with pytest.raises(TraitError):
+        TagsInput(value=['a'], min_tags=2)
+
+    w = ColorsInput(value=['red', 'blue'])
+    w.min_tags = 3
+    w.output_format = 'hex'
+    assert w.value == ['#ff0000', '#0000ff']
+
+
+def test_allowed_tags_labels():
+    w = TagsInput(allowed_tags=[{'value': 'usr_1', 'label': 'Alice'}, {'value': 'usr_2'}, 'usr_3'], sort='asc')
+
+    w.value = ['usr_3', 'usr_2', 'usr_1']
+    assert w.value == ['usr_1', 'usr_2', 'usr_3']
+
+    with pytest.raises(TraitError):
+        w.value = ['Alice']
+
+
+def test_allowed_tags_without_value():
+    # Like in the view, a dict without a 'value' key is a plain value
+    w = TagsInput(allowed_tags=[{'label': 'Alice'}, 'bob'])
+
+    w.value = ['bob']
+    with pytest.raises(TraitError):
+        w.value = ['Alice']
+
+
+def test_dates():
+    w = DatesInput(value=[datetime.date(2020, 12, 25), datetime.date(2020, 1, 1)], sort='asc')
+    assert w.value == [datetime.date(2020, 1, 1), datetime.date(2020, 12, 25)]
+
+    assert dates_to_json(w.value, w) == ['2020-01-01', '2020-12-25']
+    assert dates_from_json(['2020-01-01'], w) == [datetime.date(2020, 1, 1)]
+
+    w.min = datetime.date(2020, 1, 1)
+    with pytest.raises(TraitError):
+        w.value = [datetime.date(2019, 12, 31)]
+
+
+def test_dates_reject_datetimes():
+    w = DatesInput()
+
+    with pytest.raises(TraitError):
+        w.value = [datetime.datetime(2020, 1, 1, 12, 30)]
+    with pytest.raises(TraitError):
+        w.min = datetime.datetime(2020, 1, 1)
+
+
+def test_tag_tree():
+    tree = {'science': {'physics': ['optics', 'mechanics'], 'biology': None}, 'art': []}
+
+    w = TagsInput(tag_tree=tree, value=['science/physics/optics', 'art'])
+    assert w.value == ['science/physics/optics', 'art']
+
+    w.value = ['science', 'science/biology']
+    with pytest.raises(TraitError):
+        w.value = ['science/chemistry']
+    with pytest.raises(TraitError):
+        w.value = ['science/biology/genetics']
+
+
+def test_tag_tree_parent_mode():
+    tree = {'science': {'physics': ['optics']}}
+
+    w = TagsInput(tag_tree=tree, parent_mode='conflicts', value=['science/physics'])
+    with pytest.raises(TraitError):
+        w.value = ['science', 'science/physics/optics']
+
+    w = TagsInput(tag_tree=tree, path_separator='.', value=['science.physics.optics'])
+    with pytest.raises(TraitError):
+        w.value = ['science/physics']
+
+
+@pytest.mark.parametrize('text, hex_color, rgb_color, hsl_color', [
+    ('red', '#ff0000', 'rgb(255, 0, 0)', 'hsl(0, 100%, 50%)'),
+    (' SteelBlue ', '#4682b4', 'rgb(70, 130, 180)', 'hsl(207.27272727272728, 44%, 49.01960784313726%)'),
+    ('#f008', '#ff0000', 'rgba(255, 0, 0, 0.5333333333333333)', 'hsla(0, 100%, 50%, 0.5333333333333333)'),
+    ('rgb(50%, 10%, 0%)', '#801a00', 'rgb(128, 26, 0)', 'hsl(12, 100%, 25%)'),
+    ('hsl(120, 50%, 50%)', '#40bf40', 'rgb(64, 191, 64)', 'hsl(120, 50%, 50%)'),
+    ('hsla(-30, 0%, 20%, 1e-7)', '#333333', 'rgba(51, 51, 51, 1e-7)', 'hsla(0, 0%, 20%, 1e-7)'),
+    ('transparent', '#000000', 'rgba(0, 0, 0, 0)', 'hsla(0, 0%, 0%, 0)'),
+])
+def test_color_formats(text, hex_color, rgb_color, hsl_color):
+    color = parse_color(text)
+
+    assert format_hex(color) == hex_color
+    assert format_rgb(color) == rgb_color
+    assert format_hsl(color) == hsl_color
+
+
+def test_invalid_colors():
+    for text in ['', 'reddish', '#12345', 'rgb(1, 2)', 'rgb(1.5, 2, 3)', 'hsl(1, 2, 3)']:
+        assert parse_color(text) is None
+
+
+def test_colors_output_format():
+    w = ColorsInput(value=['red', 'hsl(120, 50%, 50%)'])
+    assert w.value == ['red', 'hsl(120, 50%, 50%)']
+
+    w.output_format = 'hex'
+    assert w.value == ['#ff0000', '#40bf40']
+
+    w.value = ['rgb(0, 0, 255)']
+    assert w.value == ['#0000ff']
+
+    w = ColorsInput(value=['red'], output_format='rgb')
+    assert w.value == ['rgb(255, 0, 0)']
+
+
+@pytest.mark.parametrize('text, numbers', [
+    ('1-3', [1, 2, 3]),
+    ('3..1', [3, 2, 1]),
+    ('-2:0', [-2, -1, 0]),
+    ('0:1:0.25', [0, 0.25, 0.5, 0.75, 1]),
+    ('0:0.3:0.1', [0, 0.1, 0.2, 0.3]),
+    ('5', None),
+])
+def test_expand_range(text, numbers):
+    assert expand_range(text) == numbers
+
+
+def test_expand_range_errors():
+    with pytest.raises(TraitError):
+        expand_range('0:1:0')
+    with pytest.raises(TraitError):
+        expand_range('0:1:-1')
+    with pytest.raises(TraitError):
+        expand_range('1-100', max_expansion=10)
+
+    assert len(expand_range('1-100', max_expansion=None)) == 100
+
+
+def test_numbers_ranges():
+    w = FloatsInput(value='1-3, 5, 0:1:0.5')
+    assert w.value == [1, 2, 3, 5, 0, 0.5, 1]
+
+    w = IntsInput(value='1-3, 10')
+    assert w.value == [1, 2, 3, 10]
+
+    with pytest.raises(TraitError):
+        w.value = '0:2:0.5'
+    assert w.value == [1, 2, 3, 10]
+
+
+def test_numbers_max_expansion():
+    w = IntsInput(max_expansion=5)
+
+    with pytest.raises(TraitError):
+        w.value = '1-6'
+
+    w.max_expansion = None
+    w.value = '1-6'
+    assert w.value == [1, 2, 3, 4, 5, 6]
+
+
+def test_natural_sort_key():
+    texts = ['item10', 'Item2', 'item1', 'b', 'A', '10', '9', 'item01a', 'item1 b']
+    assert sorted(texts, key=_natural_sort_key) == ['9', '10', 'A', 'b', 'item1', 'item1 b', 'item01a', 'Item2', 'item10']
+
+    # Only ASCII digits are numbers, as in the view
+    assert _natural_sort_key('\u0663') == [(1, 0, '\u0663')]
+
+
+def test_color_sort_key():
+    colors = ['blue', 'notacolor', '#00ff00', 'white', 'hsl(0, 100%, 25%)', 'red', 'black']
+    assert sorted(colors, key=_color_sort_key) == ['black', 'white', 'hsl(0, 100%, 25%)', 'red', '#00ff00', 'blue', 'notacolor']
+
+    # The same color sorts the same however it is written
+    assert _color_sort_key('red') == _color_sort_key('#f00') == _color_sort_key('hsl(360, 100%, 50%)')
+
+
+def test_sort():
+    w = TagsInput(value=['item10', 'item2', 'Item1'], sort='asc')
+    assert w.value == ['Item1', 'item2', 'item10']
+
+    w.sort = 'desc'
+    assert w.value == ['item10', 'item2', 'Item1']
+
+    # Tags are sorted by their labels
+    w = TagsInput(allowed_tags=[{'value': 'a', 'label': 'Zebra'}, 'b'], value=['a', 'b'], sort='asc')
+    assert w.value == ['b', 'a']
+
+    w = ColorsInput(value=['blue', 'red', 'gray'], sort='asc')
+    assert w.value == ['gray', 'red', 'blue']
+
+    w = KeyValueTagsInput(value=[('size', 'M'), ('color', 'red'), ('size', 'L')], sort='asc')
+    assert w.value == [('color', 'red'), ('size', 'L'), ('size', 'M')]
+
+
+def test_normalize():
+    w = TagsInput(normalize=['collapse_whitespace', 'lowercase'], value=['  Hello   World '])
+    assert w.value == ['hello world']
+
+    w = TagsInput(normalize=['nfc'], value=['e\u0301'])
+    assert w.value == ['\u00e9']
+
+
+def test_case_insensitive():
+    w = TagsInput(case_sensitive=False, allow_duplicates=False, allowed_tags=['Python', 'Rust'], value=['python'])
+    assert w.value == ['Python']
+
+    with pytest.raises(TraitError):
+        w.value = ['Python', 'PYTHON']
+
+    w.case_sensitive = True
+    with pytest.raises(TraitError):
+        w.value = ['python']
+
+
+def test_key_value_normalize():
+    w = KeyValueTagsInput(normalize=['collapse_whitespace'], value=[('  size ', 'extra   large')])
+    assert w.value == [('size', 'extra large')]
+
+
+def test_key_value_case_insensitive():
+    w = KeyValueTagsInput(case_sensitive=False, allow_duplicates=False, unique_keys=True,
+                          allowed_keys=['Size', 'Color'], allowed_values={'color': ['Red', 'Blue']})
+
+    w.value = [('size', 'L'), ('COLOR', 'red')]
+    assert w.value == [('Size', 'L'), ('Color', 'Red')]
+
+    with pytest.raises(TraitError):
+        w.value = [('size', 'L'), ('SIZE', 'M')]
+    with pytest.raises(TraitError):
+        w.value = [('color', 'green')]
+    with pytest.raises(TraitError):
+        w.value = [('weight', '1kg')]
+
+    w = KeyValueTagsInput(case_sensitive=False, allow_duplicates=False, allowed_values={'color': ['Red']})
+    w.value = [('Color', 'RED')]
+    assert w.value == [('color', 'Red')]
+
+    with pytest.raises(TraitError):
+        w.value = [('color', 'red'), ('Color', 'Red')]
@@ -0,0 +1,48 @@
+// Copyright (c) QuantStack
+// Distributed under the terms of the Modified BSD License.
+
+// Checks how the dates typed by the user are read. Run with `npm test`, which compiles the sources first.
+
+const assert = require('assert');
+
+const { widget, createView } = require('./harness');
+
+function check(format, text, expected) {
+    const view = createView(widget.DatesInputModel, widget.DatesInputView, { value: [], allowed_tags: [], format });
+    const name = JSON.stringify(text) + ' with the format ' + format;
+
+    if (expected instanceof RegExp) {
+        assert.throws(() => view.validateValue(text), (error) => expected.test(error), name + ' should be rejected');
+    } else {
+        assert.strictEqual(view.validateValue(text), expected, name);
+    }
+
+    view.remove();
+}
+
+// The day comes before the month, unless the display format puts the month first
+check('%Y-%m-%d', '25/12/2020', '2020-12-25');
+check('%Y-%m-%d', '13/01/2020', '2020-01-13');
+check('%Y-%m-%d', '01/02/2020', '2020-02-01');
+check('%Y-%m-%d', '1.2.2020', '2020-02-01');
+check('%m/%d/%Y', '01/02/2020', '2020-01-02');
+check('%m/%d/%Y', '25/12/2020', '2020-12-25');
+check('%Y-%m-%d', 'December 25, 2020', '2020-12-25');
+check('%Y-%m-%d', '25 Dec 2020', '2020-12-25');
+check('%Y-%m-%d', '2020/12/25', '2020-12-25');
+
+// Impossible dates are not rolled over to the next month or year
+check('%Y-%m-%d', '2020-02-30', /not a valid date/);
+check('%Y-%m-%d', '30/02/2020', /not a valid date/);
+check('%Y-%m-%d', '25/13/2020', /not a valid date/);
+check('%Y-%m-%d', 'February 30, 2020', /not a valid date/);
+check('%m/%d/%Y', '13/13/2020', /not a valid date/);
+check('%Y-%m-%d', '2020-02-29', '2020-02-29');
+check('%Y-%m-%d', '2021-02-29', /not a valid date/);
+
+// The tags are dates
+check('%Y-%m-%d', '2020-12-25T10:00:00Z', /without a time/);
+check('%Y-%m-%d', '2020-12-25T00:00:00Z', '2020-12-25');
+check('%Y-%m-%d', 'tomorrow', /not a valid date/);
+
+console.log('dates: all tests passed');
@@ -0,0 +1,85 @@
+// Copyright (c) QuantStack
+// Distributed under the terms of the Modified BSD License.
+
+// Loads the compiled views in a jsdom document. `@jupyter-widgets/base` is only published as ES modules, it
+// is replaced by a Backbone model and a view which renders again on every change of the model, as it does
+// in the notebook.
+
+const Module = require('module');
+const { JSDOM } = require('jsdom');
+const Backbone = require('backbone');
+
+const dom = new JSDOM('<!DOCTYPE html><body></body>', { pretendToBeVisual: true });
+
+for (const name of ['window', 'document', 'navigator', 'Node', 'HTMLElement', 'Event', 'KeyboardEvent',
+                    'MouseEvent', 'TouchEvent']) {
+    global[name] = name == 'window' ? dom.window : dom.window[name];
+}
+
+class DOMWidgetModel extends Backbone.Model {
+    defaults() {
+        return {};
+    }
+
+    get model_id() {
+        return this.cid;
+    }
+
+    save_changes() {
+    }
+}
+
+class DOMWidgetView {
+    constructor(options) {
+        this.model = options.model;
+        this.el = document.createElement('div');
+        this.model.on('change', () => this.update());
+    }
+
+    render() {
+    }
+
+    update() {
+    }
+
+    remove() {
+        this.el.remove();
+        return this;
+    }
+
+    send() {
+    }
+}
+
+let nextId = 0;
+const base = {
+    DOMWidgetModel,
+    DOMWidgetView,
+    uuid: () => 'id-' + nextId++,
+};
+
+const load = Module._load;
+Module._load = function(request, parent, isMain) {
+    if (request == '@jupyter-widgets/base') {
+        return base;
+    }
+    if (request.endsWith('.css')) {
+        return {};
+    }
+    return load.call(this, request, parent, isMain);
+};
+
+const widget = require('../lib/widget');
+
+/**
+ * Render a view of `View` in the document, with a model of `Model` created from `attributes`
+ */
+function createView(Model, View, attributes) {
+    const model = new Model(attributes);
+    const view = new View({ model });
+    document.body.appendChild(view.el);
+    view.render();
+    return view;
+}
+
+module.exports = { widget, createView };
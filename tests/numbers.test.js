@@ -0,0 +1,72 @@
+// Copyright (c) QuantStack
+// Distributed under the terms of the Modified BSD License.
+
+// Checks how the numbers typed by the user are read in the locale of the widget.
+// Run with `npm test`, which compiles the sources first.
+
+const assert = require('assert');
+
+const { widget, createView } = require('./harness');
+
+function createNumbersView(locale, View = widget.FloatsInputView, Model = widget.FloatsInputModel) {
+    return createView(Model, View, { value: [], allowed_tags: [], locale });
+}
+
+function checkNumbers(locale, cases) {
+    const view = createNumbersView(locale);
+
+    for (const [text, expected] of cases) {
+        const name = JSON.stringify(text) + ' in ' + locale;
+        if (expected instanceof RegExp) {
+            assert.throws(() => view.parseNumber(text), (error) => expected.test(error), name + ' should be rejected');
+        } else {
+            assert.strictEqual(view.parseNumber(text), expected, name);
+        }
+    }
+
+    view.remove();
+}
+
+checkNumbers('en-US', [
+    ['3.14', 3.14],
+    ['1,234.5', 1234.5],
+    ['-2', -2],
+    ['−2.5', -2.5],
+    ['1e3', 1000],
+    ['3,14', /is ambiguous, numbers are written like 1,234\.5/],
+    ['abc', NaN],
+]);
+
+checkNumbers('de-DE', [
+    ['3,14', 3.14],
+    ['1.234,5', 1234.5],
+    ['3.14', /is ambiguous, numbers are written like 1\.234,5/],
+]);
+
+// French groups thousands with a narrow no-break space, which is often typed as a regular space
+checkNumbers('fr-FR', [
+    ['3,14', 3.14],
+    ['1\u202f234,5', 1234.5],
+    ['1 234,5', 1234.5],
+    ['3.14', 3.14],
+]);
+
+// Ranges are expanded with the numbers of the locale
+{
+    const view = createNumbersView('de-DE');
+    assert.deepStrictEqual(view.expandValue('0:1:0,25'), [0, 0.25, 0.5, 0.75, 1]);
+    assert.deepStrictEqual(view.expandValue('1,5'), ['1,5']);
+    assert.deepStrictEqual(view.getSeparators().includes(','), false, 'the decimal separator should not split tags');
+    view.remove();
+}
+{
+    const view = createNumbersView('en-US', widget.IntsInputView, widget.IntsInputModel);
+    assert.deepStrictEqual(view.expandValue('1-3'), [1, 2, 3]);
+    assert.deepStrictEqual(view.expandValue('10:4:-3'), [10, 7, 4]);
+    assert.deepStrictEqual(view.expandValue('3-1'), [3, 2, 1]);
+    assert.throws(() => view.expandValue('0:1:0'), /is not a valid range/);
+    assert.throws(() => view.expandValue('0:1:-1'), /is not a valid range/);
+    view.remove();
+}
+
+console.log('numbers: all tests passed');
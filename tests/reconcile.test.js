@@ -0,0 +1,88 @@
+// Copyright (c) QuantStack
+// Distributed under the terms of the Modified BSD License.
+
+// Checks that reconciling a list of elements costs a number of DOM operations proportional to the change,
+// not to the length of the list. The updates of the view itself are checked in view.test.js.
+// Run with `npm test`, which compiles the sources first.
+
+const assert = require('assert');
+
+const { reconcileChildren } = require('../lib/reconcile');
+
+/**
+ * Minimal stand-in for a DOM element, counting the operations made on its children
+ */
+class FakeElement {
+    constructor(name) {
+        this.name = name;
+        this.parentNode = null;
+        this.childNodes = [];
+        this.operations = 0;
+    }
+
+    removeChild(child) {
+        this.operations++;
+        this.childNodes.splice(this.childNodes.indexOf(child), 1);
+        child.parentNode = null;
+    }
+
+    insertBefore(child, reference) {
+        this.operations++;
+        if (child.parentNode === this) {
+            this.childNodes.splice(this.childNodes.indexOf(child), 1);
+        }
+        const index = reference == null ? this.childNodes.length : this.childNodes.indexOf(reference);
+        this.childNodes.splice(index, 0, child);
+        child.parentNode = this;
+    }
+}
+
+function createList(length) {
+    const parent = new FakeElement('list');
+    const children = [];
+    for (let i = 0; i < length; i++) {
+        children.push(new FakeElement('tag' + i));
+    }
+    reconcileChildren(parent, [], children);
+    parent.operations = 0;
+
+    return { parent, children };
+}
+
+function check(name, length, change, expectedOperations) {
+    const { parent, children } = createList(length);
+    const next = change([...children]);
+
+    reconcileChildren(parent, children, next);
+
+    assert.deepStrictEqual(parent.childNodes, next, name + ': the children should match the new list');
+    assert.strictEqual(parent.operations, expectedOperations, name + ': unexpected number of DOM operations');
+}
+
+for (const length of [10, 1000, 20000]) {
+    check('unchanged list of ' + length, length, (next) => next, 0);
+    check('append to a list of ' + length, length, (next) => next.concat([new FakeElement('new')]), 1);
+    check('insert in a list of ' + length, length, (next) => {
+        next.splice(length >> 1, 0, new FakeElement('new'));
+        return next;
+    }, 1);
+    check('replace in a list of ' + length, length, (next) => {
+        next.splice(length >> 1, 1, new FakeElement('new'));
+        return next;
+    }, 2);
+    check('remove from a list of ' + length, length, (next) => {
+        next.splice(length >> 1, 1);
+        return next;
+    }, 1);
+    check('move in a list of ' + length, length, (next) => {
+        const moved = next.splice(1, 1);
+        next.splice(length - 2, 0, ...moved);
+        return next;
+    }, 1);
+    check('move a block in a list of ' + length, length, (next) => {
+        const moved = next.splice(0, 3);
+        return next.concat(moved);
+    }, 3);
+}
+
+console.log('reconcile: all tests passed');
@@ -0,0 +1,55 @@
+// Copyright (c) QuantStack
+// Distributed under the terms of the Modified BSD License.
+
+// Checks that the view sorts the tags in the same order as the Python widget, with the cases of its tests.
+// Run with `npm test`, which compiles the sources first.
+
+const assert = require('assert');
+
+const { widget, createView } = require('./harness');
+
+function sortValue(Model, View, value, attributes = {}) {
+    const view = createView(Model, View, Object.assign({ value: [], allowed_tags: [], sort: 'asc' }, attributes));
+    const sorted = view.sortValue(value);
+    view.remove();
+    return sorted;
+}
+
+// Natural order, numbers before text and text ignoring case, as in test_natural_sort_key
+assert.deepStrictEqual(
+    sortValue(widget.TagsInputModel, widget.TagsInputView, ['item10', 'Item2', 'item1', 'b', 'A', '10', '9', 'item01a', 'item1 b']),
+    ['9', '10', 'A', 'b', 'item1', 'item1 b', 'item01a', 'Item2', 'item10']
+);
+
+// Only ASCII digits are numbers
+assert.deepStrictEqual(sortValue(widget.TagsInputModel, widget.TagsInputView, ['\u0663', 'z', '9']), ['9', 'z', '\u0663']);
+
+// Colors by hue then lightness, grays first and invalid colors last, as in test_color_sort_key
+assert.deepStrictEqual(
+    sortValue(widget.ColorsInputModel, widget.ColorsInputView, ['blue', 'notacolor', '#00ff00', 'white', 'hsl(0, 100%, 25%)', 'red', 'black']),
+    ['black', 'white', 'hsl(0, 100%, 25%)', 'red', '#00ff00', 'blue', 'notacolor']
+);
+
+// The same color sorts the same however it is written
+{
+    const view = createView(widget.ColorsInputModel, widget.ColorsInputView, { value: [], allowed_tags: [] });
+    assert.strictEqual(view.compareValues('red', '#f00'), 0);
+    assert.strictEqual(view.compareValues('red', 'hsl(360, 100%, 50%)'), 0);
+    view.remove();
+}
+
+// The cases of test_sort
+assert.deepStrictEqual(sortValue(widget.TagsInputModel, widget.TagsInputView, ['item10', 'item2', 'Item1']), ['Item1', 'item2', 'item10']);
+assert.deepStrictEqual(sortValue(widget.TagsInputModel, widget.TagsInputView, ['item10', 'item2', 'Item1'], { sort: 'desc' }),
+                       ['item10', 'item2', 'Item1']);
+assert.deepStrictEqual(
+    sortValue(widget.TagsInputModel, widget.TagsInputView, ['a', 'b'], { allowed_tags: [{ value: 'a', label: 'Zebra' }, 'b'] }),
+    ['b', 'a']
+);
+assert.deepStrictEqual(sortValue(widget.ColorsInputModel, widget.ColorsInputView, ['blue', 'red', 'gray']), ['gray', 'red', 'blue']);
+assert.deepStrictEqual(
+    sortValue(widget.KeyValueTagsInputModel, widget.KeyValueTagsInputView, [['size', 'M'], ['color', 'red'], ['size', 'L']]),
+    [['color', 'red'], ['size', 'L'], ['size', 'M']]
+);
+
+console.log('sort: all tests passed');
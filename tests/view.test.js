@@ -0,0 +1,212 @@
+// Copyright (c) QuantStack
+// Distributed under the terms of the Modified BSD License.
+
+// Checks that the view renders the tags of the value, and that updating it after a change costs the same
+// for a few tags as for thousands of them: the same number of DOM operations on the list of tags, of created
+// tags and of keyed values. Run with `npm test`, which compiles the sources first.
+
+const assert = require('assert');
+
+const { widget, createView } = require('./harness');
+
+function createTagsView(length, attributes) {
+    const value = [];
+    for (let i = 0; i < length; i++) {
+        value.push('tag' + i);
+    }
+    return createView(widget.TagsInputModel, widget.TagsInputView, Object.assign({ value, allowed_tags: [] }, attributes));
+}
+
+/**
+ * Check that the elements of the view match its value, the input element being at the input position
+ */
+function checkRendering(name, view) {
+    const value = view.model.get('value');
+    // Spreading the children collection of jsdom takes a time quadratic in their number
+    const children = [];
+    for (let child = view.tagList.firstChild; child != null; child = child.nextSibling) {
+        children.push(child);
+    }
+    const tags = children.filter((child) => child !== view.taginputWrapper);
+
+    assert.deepStrictEqual(tags, view.tags, name + ': the tag elements should be in the list');
+    assert.deepStrictEqual(tags.map((tag) => tag === view.tagEditor ? view.tagEditor.value : tag.firstChild.textContent), value,
+                           name + ': the tags should match the value');
+    assert.strictEqual(children.indexOf(view.taginputWrapper), view.inputIndex, name + ': the input element should be at the input position');
+
+    const maxVisibleTags = view.model.get('max_visible_tags');
+    const visibleLength = view.collapsed && maxVisibleTags != null ? maxVisibleTags : Infinity;
+    tags.forEach((tag, index) => {
+        assert.strictEqual(tag.style.display, index < visibleLength ? '' : 'none', name + ': tag ' + index + ' should be ' +
+                           (index < visibleLength ? 'shown' : 'hidden'));
+    });
+}
+
+/**
+ * Apply `change` to the view and return the costs of updating it
+ */
+function measure(view, change) {
+    const costs = { operations: 0, created: 0, keys: 0 };
+
+    const tagList = view.tagList;
+    const methods = ['insertBefore', 'appendChild', 'removeChild'];
+    for (const method of methods) {
+        tagList[method] = function() {
+            costs.operations++;
+            return Object.getPrototypeOf(tagList)[method].apply(this, arguments);
+        };
+    }
+    view.createTagElement = function() {
+        costs.created++;
+        return Object.getPrototypeOf(view).createTagElement.apply(this, arguments);
+    };
+    const stringify = JSON.stringify;
+    JSON.stringify = function() {
+        costs.keys++;
+        return stringify.apply(this, arguments);
+    };
+
+    try {
+        change(view);
+    } finally {
+        JSON.stringify = stringify;
+        for (const method of methods) {
+            delete tagList[method];
+        }
+        delete view.createTagElement;
+    }
+
+    return costs;
+}
+
+function check(name, change, attributes = {}) {
+    const costs = [10, 5000].map((length) => {
+        const view = createTagsView(length, attributes);
+        checkRendering(name + ' (before)', view);
+
+        const lengthCosts = measure(view, change);
+        checkRendering(name + ' with ' + length + ' tags', view);
+
+        view.remove();
+        return lengthCosts;
+    });
+
+    assert.deepStrictEqual(costs[1], costs[0], name + ': the update should not depend on the number of tags');
+    assert(costs[0].created <= 2, name + ': too many created tags ' + costs[0].created);
+}
+
+check('append', (view) => view.addTags(view.tags.length, ['new']));
+check('insert', (view) => view.addTags(5, ['new']));
+check('insert several tags', (view) => view.addTags(5, ['new1', 'new2']));
+check('remove', (view) => view.removeTag(5));
+check('remove several tags', (view) => view.removeTags([2, 6]));
+check('move', (view) => view.moveTags([2], 6));
+check('edit', (view) => {
+    view.editTag(5);
+    view.tagEditor.value = 'edited';
+    view.commitEdit();
+});
+check('cancel an edit', (view) => {
+    view.editTag(5);
+    view.cancelEdit();
+});
+check('undo', (view) => {
+    view.addTags(5, ['new']);
+    view.undo();
+});
+check('change from the kernel', (view) => {
+    const value = [...view.model.get('value')];
+    value[5] = 'changed';
+    view.model.set('value', value);
+});
+check('same value from the kernel', (view) => view.model.set('value', [...view.model.get('value')]));
+check('prepend while collapsed', (view) => view.addTags(0, ['new']), { max_visible_tags: 3 });
+check('remove while collapsed', (view) => view.removeTag(0), { max_visible_tags: 3 });
+check('duplicates', (view) => view.addTags(5, ['tag1']));
+
+// Expanding shows all the tags, the cost depends on the number of tags which were hidden
+{
+    const view = createTagsView(100, { max_visible_tags: 3 });
+    view.expand();
+    checkRendering('expand', view);
+    view.collapse();
+    checkRendering('collapse', view);
+    view.remove();
+}
+
+// Emptying the editor removes the tag, the editor stays open if there would be too few tags left
+{
+    const view = createTagsView(3, { min_tags: 3 });
+    view.editTag(1);
+    view.tagEditor.value = '';
+    view.commitEdit();
+    assert.strictEqual(view.editIndex, 1, 'empty editor: the editor should stay open');
+    assert.strictEqual(view.tags[1], view.tagEditor, 'empty editor: the editor should stay in place of the tag');
+    assert.deepStrictEqual(view.model.get('value'), ['tag0', 'tag1', 'tag2'], 'empty editor: the tag should be kept');
+
+    view.cancelEdit();
+    checkRendering('empty editor', view);
+    view.remove();
+}
+{
+    const view = createTagsView(3, { min_tags: 2 });
+    view.editTag(1);
+    view.tagEditor.value = '';
+    view.commitEdit();
+    assert.strictEqual(view.editIndex, null, 'empty editor: the editor should be closed');
+    assert.deepStrictEqual(view.model.get('value'), ['tag0', 'tag2'], 'empty editor: the tag should be removed');
+    checkRendering('empty editor', view);
+    view.remove();
+}
+
+// Touches scroll the page until a long press picks a tag up. jsdom has neither pointer capture nor hit testing.
+{
+    const view = createTagsView(3);
+    const tag = view.tags[1];
+    const touchmove = () => {
+        const event = new TouchEvent('touchmove', { bubbles: true, cancelable: true });
+        tag.dispatchEvent(event);
+        return event.defaultPrevented;
+    };
+    const pointerEvent = (type) => Object.assign(new Event(type, { bubbles: true }), { pointerId: 1, clientX: 0, clientY: 0 });
+
+    assert(!touchmove(), 'touch: the page should scroll before the tag is picked up');
+
+    let captured = null;
+    tag.setPointerCapture = (pointerId) => {
+        captured = pointerId;
+    };
+    document.elementFromPoint = () => null;
+    view.startPointerDrag(pointerEvent('pointerdown'), 1);
+    assert.strictEqual(captured, 1, 'touch: the tag should capture the pointer');
+    assert(touchmove(), 'touch: the page should not scroll while dragging');
+
+    document.dispatchEvent(pointerEvent('pointerup'));
+    assert(!touchmove(), 'touch: the page should scroll after the drop');
+
+    delete document.elementFromPoint;
+    view.remove();
+}
+
+// The overflow chip can be reached with the keyboard, Enter or Space showing all the tags
+for (const key of ['Enter', ' ']) {
+    const view = createTagsView(10, { max_visible_tags: 3 });
+    assert.strictEqual(view.overflowChip.tabIndex, 0, 'overflow chip: it should be focusable');
+    view.overflowChip.dispatchEvent(new KeyboardEvent('keydown', { key, cancelable: true }));
+    assert(!view.collapsed, 'overflow chip: ' + JSON.stringify(key) + ' should show all the tags');
+    assert.strictEqual(view.overflowChip.style.display, 'none', 'overflow chip: it should be hidden once expanded');
+    assert.strictEqual(document.activeElement, view.taginput, 'overflow chip: the input element should be focused');
+    checkRendering('overflow chip', view);
+    view.remove();
+}
+
+// Refreshing renders all the tags again
+{
+    const view = createTagsView(100);
+    const costs = measure(view, (view) => view.refreshTags());
+    checkRendering('refresh', view);
+    assert.strictEqual(costs.created, 100, 'refresh: all the tags should be created again');
+    view.remove();
+}
+
+console.log('view: all tests passed');